@@ -0,0 +1,84 @@
+// Regenerates src/lib/publicSuffixData.ts from the Public Suffix List.
+//
+//   npm run update-suffixes                 # download from publicsuffix.org
+//   npm run update-suffixes -- ./list.dat   # or convert a local copy
+//
+// Both ICANN and private sections are kept (github.io, vercel.app, ...).
+// Unicode rules are converted to punycode since URL.hostname is always ASCII.
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { domainToASCII } from 'url';
+
+const PSL_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const OUTPUT = join(process.cwd(), 'src', 'lib', 'publicSuffixData.ts');
+
+async function readList(source) {
+  if (source) return readFileSync(source, 'utf8');
+  const response = await fetch(PSL_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${PSL_URL}: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+function toAsciiRule(rule) {
+  // Keep the "!" / "*." markers out of the conversion
+  const prefix = rule.startsWith('!') ? '!' : rule.startsWith('*.') ? '*.' : '';
+  const ascii = domainToASCII(rule.slice(prefix.length));
+  return ascii ? prefix + ascii : null;
+}
+
+function parseRules(text) {
+  const rules = new Set();
+  for (const line of text.split('\n')) {
+    // Rules end at the first whitespace; comments start with "//"
+    const rule = line.trim().split(/\s/)[0];
+    if (!rule || rule.startsWith('//')) continue;
+    const ascii = toAsciiRule(rule.toLowerCase());
+    if (ascii) rules.add(ascii);
+    else console.warn(`Skipping rule that can't be converted to ASCII: ${rule}`);
+  }
+  return rules;
+}
+
+// Group by top-level label: "io:,github,*.compute" etc. An empty entry is the TLD itself.
+// Cuts the size roughly in half compared with one rule per line.
+function encode(rules) {
+  const groups = new Map();
+  for (const rule of rules) {
+    const marker = rule.startsWith('!') ? '!' : '';
+    const labels = rule.slice(marker.length).split('.');
+    const tld = labels.pop();
+    const rest = marker + labels.join('.');
+    if (!groups.has(tld)) groups.set(tld, []);
+    groups.get(tld).push(rest);
+  }
+  return [...groups.keys()]
+    .sort()
+    .map(tld => `${tld}:${groups.get(tld).sort().join(',')}`)
+    .join(';');
+}
+
+async function main() {
+  const source = process.argv[2];
+  const rules = parseRules(await readList(source));
+  const data = encode(rules);
+
+  const output = `// Generated by scripts/update-public-suffixes.js — do not edit by hand.
+// Source: ${source ? 'local copy of ' : ''}${PSL_URL} (${rules.size} rules, generated ${new Date().toISOString().slice(0, 10)})
+// The Public Suffix List is subject to the Mozilla Public License, v. 2.0.
+// Format: "tld:rest,rest;tld:..." — rest is the rule minus its last label, "" for the TLD itself,
+// with "!" (exception) and "*." (wildcard) markers kept in front.
+
+export const PUBLIC_SUFFIX_DATA =
+  '${data}';
+`;
+
+  writeFileSync(OUTPUT, output);
+  console.log(`✓ Wrote ${rules.size} rules (${(data.length / 1024).toFixed(0)} KB) to ${OUTPUT}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
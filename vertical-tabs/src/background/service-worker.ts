@@ -2,21 +2,41 @@ import { getTabEngine } from '@/lib/tab-engine';
 import { getStateManager } from '@/lib/storage';
 import { broadcastMessage, type UIMessage } from '@/lib/messages';
 import { analyzeTab } from '@/lib/tab-analyzer';
+import { fetchPageSignals } from '@/lib/pageSignals';
 import { TabAssigner } from '@/lib/tabAssigner';
-import type { ExtendedTab } from '@/types';
+import { UndoJournal } from '@/lib/undoJournal';
+import { hasFingerprint, reconcileTabs, tabFingerprint } from '@/lib/tabReconciler';
+import { buildExport, parseExport } from '@/lib/stateTransfer';
+import { StateSync } from '@/lib/stateSync';
+import { needsCompaction } from '@/lib/storageCompaction';
+import { EventGate } from '@/lib/eventGate';
+import type { ExportBundle, ExtendedTab, ImportOptions, ImportResult, StorageDiagnostics } from '@/types';
 
 console.log('[ServiceWorker] Loading...');
 
 const DEFAULT_SPACE_ID = 'default';
 
+// Periodic sweep for metadata of tabs that closed without us hearing about it; storage is
+// compacted on the same schedule once it grows past its threshold
+const CLEANUP_ALARM = 'prune-orphaned-tabs';
+const CLEANUP_INTERVAL_MINUTES = 30;
+
+// Chrome brings a restored session's tabs back over a while after the browser starts. Until this
+// one-shot alarm fires, entries of the previous session's tabs are kept for them to claim rather
+// than pruned.
+const SESSION_RESTORE_ALARM = 'session-restore';
+const SESSION_RESTORE_MINUTES = 2;
+let restoringSession = false;
+
 // ============================================
 // Initialize Core Systems
 // ============================================
 const tabEngine = getTabEngine();
 const stateManager = getStateManager();
-let hasRegisteredSpaceListeners = false;
 let uiActiveSpaceId: string = DEFAULT_SPACE_ID;
 let assigner: InstanceType<typeof TabAssigner> | null = null;
+const journal = new UndoJournal(stateManager, tabEngine);
+const stateSync = new StateSync(stateManager, showTabsInHome);
 
 async function focusExistingTab(existingTabId: number): Promise<boolean> {
   try {
@@ -49,6 +69,173 @@ async function findExactDuplicateTabId(incomingUrl: string): Promise<number | nu
   return null;
 }
 
+// Reflect tabs whose space was deleted (here or on another device) in the tab engine and UI
+function showTabsInHome(tabIds: number[]): void {
+  for (const tabId of tabIds) {
+    tabEngine.updateTabMetadata(tabId, { spaceId: DEFAULT_SPACE_ID });
+    const updatedTab = tabEngine.getTab(tabId);
+    if (updatedTab) {
+      broadcastMessage({
+        type: 'TAB_UPDATED',
+        tab: { ...updatedTab, spaceId: DEFAULT_SPACE_ID },
+      });
+    }
+  }
+}
+
+// ============================================
+// Space Archives
+// ============================================
+
+// Save every open tab of a space into its archive, then close them. Returns how many were archived.
+async function archiveSpace(spaceId: string): Promise<number> {
+  const space = stateManager.getSpaces().find(s => s.id === spaceId);
+  if (!space) return 0;
+
+  const metadata = stateManager.getTabMetadata();
+  const allTabs = tabEngine.getAllTabs();
+  const tabs = allTabs
+    .filter(tab => tab.id !== undefined && tab.url && (metadata[tab.id]?.spaceId ?? DEFAULT_SPACE_ID) === spaceId)
+    .sort((a, b) => a.windowId - b.windowId || a.index - b.index);
+  if (tabs.length === 0) return 0;
+
+  // Archiving again before restoring adds to what's already saved
+  stateManager.updateSpace(spaceId, {
+    archive: {
+      archivedAt: Date.now(),
+      tabs: [
+        ...(space.archive?.tabs ?? []),
+        ...tabs.map(tab => ({ url: tab.url!, title: tab.title, favIconUrl: tab.favIconUrl, pinned: tab.pinned })),
+      ],
+    },
+  });
+
+  const tabIds = tabs.map(tab => tab.id!);
+  // Closing every last tab would close the browser — leave a new tab behind
+  if (tabIds.length === allTabs.length) {
+    await chrome.tabs.create({});
+  }
+  await chrome.tabs.remove(tabIds);
+  for (const tabId of tabIds) {
+    stateManager.removeTabMetadata(tabId);
+  }
+  return tabIds.length;
+}
+
+// Open URLs in one new window, each tab placed in its space as if moved there by hand
+async function openTabsInSpaces(tabs: { url: string; spaceId: string; pinned?: boolean }[]): Promise<number[]> {
+  const window = await chrome.windows.create({ url: tabs.map(tab => tab.url), focused: true });
+  const openedTabIds: number[] = [];
+  for (const [index, created] of (window?.tabs ?? []).entries()) {
+    const spaceId = tabs[index]?.spaceId;
+    if (created.id === undefined || !spaceId) continue;
+    stateManager.assignTabToSpace(created.id, spaceId);
+    // Opened on purpose — don't let the scorer move them elsewhere as they load
+    stateManager.setTabMetadata(created.id, { autoAssigned: false });
+    tabEngine.updateTabMetadata(created.id, { spaceId });
+    if (tabs[index].pinned) {
+      await chrome.tabs.update(created.id, { pinned: true });
+    }
+    broadcastMessage({
+      type: 'TAB_UPDATED',
+      tab: { ...(tabEngine.getTab(created.id) ?? created), spaceId },
+    });
+    openedTabIds.push(created.id);
+  }
+  return openedTabIds;
+}
+
+// Reopen an archived space in one new window and put its tabs back in the space
+async function restoreSpace(spaceId: string): Promise<number[]> {
+  const archive = stateManager.getSpaces().find(s => s.id === spaceId)?.archive;
+  if (!archive || archive.tabs.length === 0) return [];
+
+  const restoredTabIds = await openTabsInSpaces(archive.tabs.map(tab => ({ ...tab, spaceId })));
+  stateManager.updateSpace(spaceId, { archive: undefined });
+  return restoredTabIds;
+}
+
+// ============================================
+// Export / Import
+// ============================================
+
+function exportState(options: { settings: boolean; savedItems: boolean; openTabs: boolean }): ExportBundle {
+  let openTabs: Map<string, chrome.tabs.Tab[]> | undefined;
+  if (options.openTabs) {
+    const metadata = stateManager.getTabMetadata();
+    openTabs = new Map();
+    for (const tab of tabEngine.getAllTabs()) {
+      if (tab.id === undefined) continue;
+      const spaceId = metadata[tab.id]?.spaceId ?? DEFAULT_SPACE_ID;
+      openTabs.set(spaceId, [...(openTabs.get(spaceId) ?? []), tab]);
+    }
+  }
+  return buildExport(stateManager.getSpaces(), {
+    settings: options.settings ? stateManager.getSettings() : undefined,
+    savedItems: options.savedItems ? stateManager.getSavedItems() : undefined,
+    openTabs,
+  });
+}
+
+// Throws with a readable message when the file doesn't validate
+async function importState(data: unknown, options: ImportOptions): Promise<ImportResult> {
+  const bundle = parseExport(data);
+  const { idMap, result } = stateManager.importState(bundle, options);
+
+  if (options.openTabs) {
+    const tabs = bundle.spaces.flatMap(space => (space.tabs ?? []).map(tab => ({ url: tab.url, spaceId: idMap.get(space.id)! })));
+    if (tabs.length > 0) {
+      result.tabsOpened = (await openTabsInSpaces(tabs)).length;
+    }
+  }
+  return result;
+}
+
+// ============================================
+// Restart Reconciliation
+// ============================================
+
+// Tabs whose entry this worker has written — during session restore, the other live ids may
+// still carry an entry of the last session's tab that had the same id
+const claimedTabIds = new Set<number>();
+
+// Keep each tab's URL, title and position on its metadata so it can be found after a restart.
+// Only written when something changed — startup runs this for every open tab.
+function rememberTab(tab: chrome.tabs.Tab): void {
+  if (tab.id === undefined) return;
+  claimedTabIds.add(tab.id);
+  const fingerprint = tabFingerprint(tab);
+  if (hasFingerprint(stateManager.getTabMetadata()[tab.id], fingerprint)) return;
+  stateManager.setTabMetadata(tab.id, fingerprint);
+}
+
+// Tab ids change when the browser restores a session — hand persisted metadata
+// (space, lastActiveAt, features) over to the restored tabs it belongs to
+function reconcileRestoredTabs(): void {
+  const { matches, stale } = reconcileTabs(
+    stateManager.getTabMetadata(),
+    tabEngine.getAllTabs()
+      .filter(tab => tab.id !== undefined)
+      .map(tab => ({
+        id: tab.id!,
+        url: tab.url || tab.pendingUrl || '',
+        title: tab.title ?? '',
+        windowId: tab.windowId,
+        index: tab.index,
+      })),
+    { afterRestart: restoringSession, claimedIds: claimedTabIds },
+  );
+  if (matches.length === 0 && stale.length === 0) return;
+
+  stateManager.reassignTabMetadata(matches, stale);
+  const metadata = stateManager.getTabMetadata();
+  for (const tabId of [...stale, ...matches.map(([newTabId]) => newTabId)]) {
+    const { spaceId, lastActiveAt } = metadata[tabId] ?? {};
+    tabEngine.updateTabMetadata(tabId, { spaceId, lastActiveAt });
+  }
+  console.log(`[ServiceWorker] Reconciled ${matches.length} restored tabs, dropped ${stale.length} stale entries`);
+}
+
 // ============================================
 // Tab Inactivity Tracking
 // ============================================
@@ -62,6 +249,8 @@ function enrichTabWithMetadata(tab: ExtendedTab): ExtendedTab {
     ...tab,
     spaceId: metadataEntry?.spaceId ?? tab.spaceId,
     lastActiveAt: metadataEntry?.lastActiveAt ?? tab.lastActiveAt ?? tab.lastAccessed,
+    matchedRule: metadataEntry?.matchedRule ?? tab.matchedRule,
+    suggestedSpaceId: metadataEntry?.suggestion?.spaceId ?? tab.suggestedSpaceId,
   };
 }
 
@@ -92,6 +281,18 @@ async function initialize(): Promise<void> {
   // Initialize tab engine (syncs with Chrome)
   await tabEngine.initialize();
 
+  await journal.load();
+
+  // In memory only, but before queued events replay — the assigner would otherwise give
+  // restored tabs a space of its own before they get their old one back.
+  // A worker that wakes up during session restore keeps reconciling tabs as they arrive.
+  restoringSession ||= Boolean(await chrome.alarms.get(SESSION_RESTORE_ALARM));
+  reconcileRestoredTabs();
+  // Fingerprints are only refreshed on change; start from where every tab is now
+  for (const tab of tabEngine.getAllTabs()) {
+    rememberTab(tab);
+  }
+
   // Seed lastActiveAt for the currently active tab on init
   try {
     const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -111,72 +312,189 @@ async function initialize(): Promise<void> {
     }
   }
 
-  // Clean up metadata when tabs are removed (regardless of how they were closed)
-  chrome.tabs.onRemoved.addListener((tabId) => {
-    stateManager.removeTabMetadata(tabId);
-  });
-
-  // Update lastActiveAt whenever user activates a tab
-  chrome.tabs.onActivated.addListener((activeInfo) => {
-    updateLastActive(activeInfo.tabId);
-
+  // Subscribe to state manager changes to broadcast to UI
+  stateManager.subscribe(() => {
     broadcastMessage({
-      type: 'TAB_ACTIVATED',
-      tabId: activeInfo.tabId,
-      windowId: activeInfo.windowId,
+      type: 'SPACES_UPDATED',
+      spaces: stateManager.getSpaces(),
     });
   });
 
-  // When a window gains focus, mark its active tab as active "now"
-  chrome.windows.onFocusChanged.addListener(async (windowId) => {
-    if (windowId === chrome.windows.WINDOW_ID_NONE) return;
+  assigner = new TabAssigner(stateManager, tabEngine, uiActiveSpaceId);
 
-    try {
-      const [activeTab] = await chrome.tabs.query({ active: true, windowId });
-      if (activeTab?.id) {
-        updateLastActive(activeTab.id);
-      }
-    } catch (e) {
-      console.warn('[ServiceWorker] Failed to update lastActiveAt on window focus:', e);
+  console.log('[ServiceWorker] Initialized');
+}
+
+// A previous worker was stopped with events it never finished handling. Startup has already
+// re-read every tab and matched restored ones; what can still be missing is
+// a space for tabs whose onCreated was lost.
+function recoverMissedEvents(missed: number): void {
+  console.warn(`[ServiceWorker] ${missed} events went unhandled before the last suspension, resyncing`);
+  const metadata = stateManager.getTabMetadata();
+  for (const tab of tabEngine.getAllTabs()) {
+    if (tab.id !== undefined && !metadata[tab.id]?.spaceId) {
+      assigner?.onCreated(tab);
     }
-  });
+  }
+}
 
-  // Subscribe to state manager changes to broadcast to UI
-  stateManager.subscribe(() => {
-    broadcastMessage({
-      type: 'SPACES_UPDATED',
-      spaces: stateManager.getSpaces(),
+// ============================================
+// Startup
+// ============================================
+const gate = new EventGate();
+let startup: Promise<void> | null = null;
+
+// Every wake-up shares one startup; if it fails, the next event tries again
+function start(): Promise<void> {
+  startup ??= initialize()
+    .then(() => gate.open())
+    .then((missed) => {
+      if (missed > 0) recoverMissedEvents(missed);
+      // Housekeeping waits until events flow again; pruning and compaction run from the alarm
+      stateSync.start().catch((e) => console.warn('[ServiceWorker] Could not start sync:', e));
+    })
+    .catch((error) => {
+      console.error('[ServiceWorker] Startup failed:', error);
+      startup = null;
     });
+  return startup;
+}
+
+// Events wait at the gate until startup is done
+function deliver(label: string, handler: () => void | Promise<void>): void {
+  void start();
+  gate.dispatch(label, handler);
+}
+
+void start();
+
+// ============================================
+// Browser Events
+// ============================================
+// Registered synchronously at the top level — Chrome only delivers the events that wake a
+// suspended worker to listeners that exist before the script's first turn ends
+
+chrome.tabs.onCreated.addListener((tab) => deliver('tabs.onCreated', () => {
+  tabEngine.onTabCreated(tab);
+  if (restoringSession) reconcileRestoredTabs();
+  rememberTab(tab);
+  assigner!.onCreated(tab);
+  const analysis = analyzeTab(tab.id!, tab.url ?? '', tab.title ?? '', {
+    synonyms: stateManager.getSettings().keywordSynonyms,
   });
+  broadcastMessage({ type: 'TAB_ANALYZED', analysis });
+}));
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => deliver('tabs.onUpdated', () => {
+  tabEngine.onTabUpdated(tabId, changeInfo, tab);
+  if (changeInfo.url !== undefined || changeInfo.title !== undefined) {
+    // Restored tabs often only learn their URL after onCreated
+    if (restoringSession && changeInfo.url !== undefined) reconcileRestoredTabs();
+    rememberTab(tab);
+  }
+  const assigned = assigner!.onUpdated(tabId, changeInfo, tab);
+  if (changeInfo.status === 'complete' && stateManager.getSettings().pageSignalsEnabled) {
+    fetchPageSignals(tabId, tab.url ?? '')
+      .then((signals) => {
+        if (signals) assigner!.onPageSignals(tabId, signals);
+      })
+      // Restricted pages, a revoked host permission or the tab closing mid-read
+      .catch((e) => console.warn('[ServiceWorker] Could not read page signals:', e));
+  }
+  return assigned;
+}));
+
+// Clean up metadata when tabs are removed (regardless of how they were closed)
+chrome.tabs.onRemoved.addListener((tabId, removeInfo) => deliver('tabs.onRemoved', () => {
+  tabEngine.onTabRemoved(tabId, removeInfo);
+  stateManager.removeTabMetadata(tabId);
+  assigner!.onRemoved(tabId);
+}));
+
+// Update lastActiveAt whenever user activates a tab
+chrome.tabs.onActivated.addListener((activeInfo) => deliver('tabs.onActivated', () => {
+  tabEngine.onTabActivated(activeInfo);
+  updateLastActive(activeInfo.tabId);
+
+  broadcastMessage({
+    type: 'TAB_ACTIVATED',
+    tabId: activeInfo.tabId,
+    windowId: activeInfo.windowId,
+  });
+}));
 
-  if (!hasRegisteredSpaceListeners) {
-    assigner = new TabAssigner(stateManager, tabEngine, uiActiveSpaceId);
+chrome.tabs.onMoved.addListener((tabId, moveInfo) => deliver('tabs.onMoved', () => {
+  tabEngine.onTabMoved(tabId, moveInfo);
+  stateManager.setTabMetadata(tabId, { windowId: moveInfo.windowId, index: moveInfo.toIndex });
+}));
 
-    chrome.tabs.onCreated.addListener((tab) => {
-      assigner!.onCreated(tab);
-      const analysis = analyzeTab(tab.id!, tab.url ?? '', tab.title ?? '');
-      broadcastMessage({ type: 'TAB_ANALYZED', analysis });
-    });
+chrome.tabs.onAttached.addListener((tabId, attachInfo) => deliver('tabs.onAttached', () => {
+  tabEngine.onTabAttached(tabId, attachInfo);
+  stateManager.setTabMetadata(tabId, { windowId: attachInfo.newWindowId, index: attachInfo.newPosition });
+}));
 
-    chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
-      assigner!.onUpdated(tabId, changeInfo, tab);
-    });
+chrome.tabs.onDetached.addListener((tabId, detachInfo) => deliver('tabs.onDetached', () => {
+  tabEngine.onTabDetached(tabId, detachInfo);
+}));
 
-    chrome.tabs.onRemoved.addListener((tabId) => {
-      assigner!.onRemoved(tabId);
-    });
+chrome.windows.onCreated.addListener((window) => deliver('windows.onCreated', () => {
+  tabEngine.onWindowCreated(window);
+}));
+
+chrome.windows.onRemoved.addListener((windowId) => deliver('windows.onRemoved', () => {
+  tabEngine.onWindowRemoved(windowId);
+}));
+
+// When a window gains focus, mark its active tab as active "now"
+chrome.windows.onFocusChanged.addListener((windowId) => deliver('windows.onFocusChanged', async () => {
+  tabEngine.onWindowFocusChanged(windowId);
+  if (windowId === chrome.windows.WINDOW_ID_NONE) return;
+
+  try {
+    const [activeTab] = await chrome.tabs.query({ active: true, windowId });
+    if (activeTab?.id) {
+      updateLastActive(activeTab.id);
+    }
+  } catch (e) {
+    console.warn('[ServiceWorker] Failed to update lastActiveAt on window focus:', e);
+  }
+}));
+
+// Edits synced from other devices. Local and session writes (our own saves, the gate's
+// sequence) are not events to replay — and counting them would feed back into the gate.
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== 'sync') return;
+  deliver('storage.onChanged', () => stateSync.onStorageChanged(changes, area));
+});
 
-    hasRegisteredSpaceListeners = true;
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === SESSION_RESTORE_ALARM) {
+    deliver('alarms.onAlarm', () => {
+      restoringSession = false;
+      return cleanUpStorage();
+    });
+  } else if (alarm.name === CLEANUP_ALARM) {
+    deliver('alarms.onAlarm', cleanUpStorage);
   }
+});
 
-  console.log('[ServiceWorker] Initialized');
+function getDiagnostics(): StorageDiagnostics {
+  return { ...stateManager.getDiagnostics(), sync: stateSync.getStatus(), restoringSession };
 }
 
-// Track initialization state
-let isInitialized = false;
+async function cleanUpStorage(): Promise<void> {
+  // The previous session's entries wait until its tabs have had the chance to claim them
+  if (restoringSession) return;
+  await stateManager.pruneOrphanedTabs();
+  await compactStorageIfNeeded();
+}
 
-// Initialize on load
-initialize().then(() => { isInitialized = true; }).catch(console.error);
+async function compactStorageIfNeeded(): Promise<void> {
+  const usage = await stateManager.refreshStorageUsage();
+  if (needsCompaction(usage)) {
+    await stateManager.compactStorage();
+  }
+}
 
 // ============================================
 // Side Panel Toggle
@@ -240,7 +558,8 @@ chrome.runtime.onMessage.addListener(
   (message: UIMessage, _sender, sendResponse) => {
     console.log('[ServiceWorker] Message received:', message.type);
 
-    handleMessage(message, sendResponse);
+    // Answered once startup is done, so a panel that woke the worker gets loaded state
+    deliver(message.type, () => handleMessage(message, sendResponse));
 
     // Return true to keep channel open for async responses
     return true;
@@ -285,6 +604,10 @@ async function handleMessage(
           lastActiveAt: tab.id
             ? (metadata[tab.id]?.lastActiveAt ?? tab.lastActiveAt ?? tab.lastAccessed)
             : (tab.lastActiveAt ?? tab.lastAccessed),
+          matchedRule: tab.id ? (metadata[tab.id]?.matchedRule ?? tab.matchedRule) : tab.matchedRule,
+          suggestedSpaceId: tab.id
+            ? (metadata[tab.id]?.suggestion?.spaceId ?? tab.suggestedSpaceId)
+            : tab.suggestedSpaceId,
         }));
 
         sendResponse(tabs);
@@ -314,17 +637,21 @@ async function handleMessage(
       }
 
       case 'CLOSE_TAB': {
+        const entry = journal.captureClose([message.tabId]);
         await chrome.tabs.remove(message.tabId);
         stateManager.removeTabMetadata(message.tabId);
+        journal.record(entry);
         sendResponse({ success: true });
         break;
       }
 
       case 'CLOSE_TABS': {
+        const entry = journal.captureClose(message.tabIds);
         await chrome.tabs.remove(message.tabIds);
         for (const tabId of message.tabIds) {
           stateManager.removeTabMetadata(tabId);
         }
+        journal.record(entry);
         sendResponse({ success: true });
         break;
       }
@@ -408,10 +735,12 @@ async function handleMessage(
 
       // ========== Space Actions ==========
       case 'ASSIGN_TAB_TO_SPACE': {
+        const previous = { ...stateManager.getTabMetadata()[message.tabId] };
+        const previousSpaceId = previous.spaceId ?? DEFAULT_SPACE_ID;
         const assignedSpaceId = stateManager.assignTabToSpace(message.tabId, message.spaceId);
         tabEngine.updateTabMetadata(message.tabId, { spaceId: assignedSpaceId });
-        // Mark as manually assigned so the auto-assigner won't override it
-        assigner?.markManual(message.tabId);
+        // Mark as manually assigned so the auto-assigner won't override it (and learns from the move)
+        const learnedExample = assigner?.markManual(message.tabId, previousSpaceId);
         const updatedTab = tabEngine.getTab(message.tabId);
         if (updatedTab) {
           broadcastMessage({
@@ -419,28 +748,27 @@ async function handleMessage(
             tab: { ...updatedTab, spaceId: assignedSpaceId },
           });
         }
+        const spaceName = stateManager.getSpaces().find(space => space.id === assignedSpaceId)?.name ?? assignedSpaceId;
+        journal.record(journal.captureMoves(
+          `Move tab to “${spaceName}”`,
+          [{ tabId: message.tabId, toSpaceId: assignedSpaceId, learnedExample }],
+          { [message.tabId]: previous },
+          false,
+        ));
         sendResponse({ success: true });
         break;
       }
 
       case 'CREATE_SPACE': {
-        const space = stateManager.addSpace(message.name, message.color, message.icon);
+        const space = stateManager.addSpace(message.name, message.color, message.icon, message.rules);
         sendResponse({ success: true, space });
         break;
       }
 
       case 'DELETE_SPACE': {
-        const movedTabIds = stateManager.removeSpace(message.spaceId);
-        for (const tabId of movedTabIds) {
-          tabEngine.updateTabMetadata(tabId, { spaceId: DEFAULT_SPACE_ID });
-          const updatedTab = tabEngine.getTab(tabId);
-          if (updatedTab) {
-            broadcastMessage({
-              type: 'TAB_UPDATED',
-              tab: { ...updatedTab, spaceId: DEFAULT_SPACE_ID },
-            });
-          }
-        }
+        const entry = journal.captureSpaceDeletion(message.spaceId);
+        showTabsInHome(stateManager.removeSpace(message.spaceId));
+        journal.record(entry);
         sendResponse({ success: true });
         break;
       }
@@ -457,6 +785,18 @@ async function handleMessage(
         break;
       }
 
+      case 'ARCHIVE_SPACE': {
+        const archived = await archiveSpace(message.spaceId);
+        sendResponse({ success: archived > 0, archived });
+        break;
+      }
+
+      case 'RESTORE_SPACE': {
+        const tabIds = await restoreSpace(message.spaceId);
+        sendResponse({ success: tabIds.length > 0, tabIds });
+        break;
+      }
+
       case 'SET_ACTIVE_SPACE': {
         uiActiveSpaceId = message.spaceId;
         assigner?.setUiActiveSpaceId(message.spaceId);
@@ -464,6 +804,60 @@ async function handleMessage(
         break;
       }
 
+      case 'ACCEPT_SUGGESTION': {
+        assigner?.acceptSuggestion(message.tabId);
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'DISMISS_SUGGESTION': {
+        assigner?.dismissSuggestion(message.tabId);
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'RECLASSIFY_TABS': {
+        // Entries are replaced, not mutated, on write — a shallow copy is a snapshot
+        const before = { ...stateManager.getTabMetadata() };
+        const changes = assigner?.reclassify(message.scope, {
+          apply: message.apply,
+          tabIds: message.tabIds,
+        }) ?? [];
+        if (message.apply) {
+          journal.record(journal.captureMoves(`Re-sort ${changes.length} tab${changes.length !== 1 ? 's' : ''}`, changes, before, true));
+        }
+        sendResponse({ changes });
+        break;
+      }
+
+      case 'DISCOVER_SPACES': {
+        const proposals = assigner?.discoverSpaces() ?? [];
+        sendResponse({ proposals });
+        break;
+      }
+
+      case 'CREATE_PROPOSED_SPACES': {
+        const spaces = assigner?.createProposedSpaces(message.proposals) ?? [];
+        sendResponse({ success: true, spaces });
+        break;
+      }
+
+      case 'GET_ASSIGNMENT_EXPLANATION': {
+        const explanation = stateManager.getTabMetadata()[message.tabId]?.explanation ?? null;
+        sendResponse({ explanation });
+        break;
+      }
+
+      case 'UNDO': {
+        sendResponse(await journal.undo());
+        break;
+      }
+
+      case 'REDO': {
+        sendResponse(await journal.redo());
+        break;
+      }
+
       case 'GET_SETTINGS': {
         sendResponse(stateManager.getSettings());
         break;
@@ -472,10 +866,54 @@ async function handleMessage(
       case 'UPDATE_SETTINGS': {
         const current = stateManager.getSettings();
         stateManager.setSettings({ ...current, ...message.updates });
+        sendResponse({ success: await stateManager.saveNow() });
+        break;
+      }
+
+      case 'GET_LEARNING_SUMMARY': {
+        sendResponse({ examples: stateManager.getLearnedExamples().length });
+        break;
+      }
+
+      case 'RESET_LEARNING': {
+        stateManager.clearLearnedExamples();
         sendResponse({ success: true });
         break;
       }
 
+      case 'EXPORT_STATE': {
+        sendResponse({ bundle: exportState(message) });
+        break;
+      }
+
+      case 'IMPORT_STATE': {
+        try {
+          sendResponse({ success: true, result: await importState(message.data, message.options) });
+        } catch (error) {
+          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+        }
+        break;
+      }
+
+      case 'GET_DIAGNOSTICS': {
+        await stateManager.refreshStorageUsage();
+        sendResponse(getDiagnostics());
+        break;
+      }
+
+      // Both drop entries restored tabs may still claim — not until session restore is over
+      case 'PRUNE_ORPHANED_TABS': {
+        if (!restoringSession) await stateManager.pruneOrphanedTabs();
+        sendResponse(getDiagnostics());
+        break;
+      }
+
+      case 'COMPACT_STORAGE': {
+        if (!restoringSession) await stateManager.compactStorage();
+        sendResponse(getDiagnostics());
+        break;
+      }
+
       // ========== Saved Items ==========
       case 'GET_SAVED_ITEMS': {
         if (stateManager.getSettings().useNativeReadingList && chrome.readingList) {
@@ -533,22 +971,41 @@ async function handleMessage(
 // ============================================
 // Extension Lifecycle
 // ============================================
+// Alarms survive the worker being suspended but aren't guaranteed to survive an update or a
+// browser restart — both of which end up here
+async function ensureCleanupAlarm(): Promise<void> {
+  if (!(await chrome.alarms.get(CLEANUP_ALARM))) {
+    await chrome.alarms.create(CLEANUP_ALARM, { periodInMinutes: CLEANUP_INTERVAL_MINUTES });
+  }
+}
+
 chrome.runtime.onInstalled.addListener((details) => {
   console.log('[ServiceWorker] Extension installed/updated:', details.reason);
 
   if (details.reason === 'install') {
     console.log('[ServiceWorker] First install - welcome!');
   }
+  ensureCleanupAlarm().catch(console.error);
 });
 
-// Handle service worker activation (restart after idle)
-chrome.runtime.onStartup.addListener(async () => {
+// The worker is already starting by the time this fires; start() just joins that startup
+chrome.runtime.onStartup.addListener(() => {
   console.log('[ServiceWorker] Browser started');
-  if (!isInitialized) {
-    console.log('[ServiceWorker] Re-initializing...');
-    await initialize();
-    isInitialized = true;
-  }
+  restoringSession = true;
+  chrome.alarms.create(SESSION_RESTORE_ALARM, { delayInMinutes: SESSION_RESTORE_MINUTES }).catch(console.error);
+  ensureCleanupAlarm().catch(console.error);
+  void start();
+});
+
+// The worker is about to be stopped: write out whatever is still waiting on a debounce.
+// Chained so each write starts as soon as the one before it has landed, most important first.
+chrome.runtime.onSuspend.addListener(() => {
+  console.log('[ServiceWorker] Suspending, flushing pending state');
+  tabEngine.flushPendingUpdates();
+  stateManager.saveNow()
+    .then(() => gate.flush())
+    .then(() => stateSync.flush())
+    .catch((e) => console.warn('[ServiceWorker] Could not flush state before suspending:', e));
 });
 
 console.log('[ServiceWorker] Loaded');
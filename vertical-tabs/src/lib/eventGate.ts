@@ -0,0 +1,106 @@
+// Delivery of browser events across service worker restarts.
+// MV3 only hands the events that woke a suspended worker to listeners registered synchronously
+// while the script first runs, long before persisted state has loaded. The service worker
+// registers every listener up front and passes events through this gate: until startup opens it
+// they queue, then replay in arrival order. Each event also gets a sequence number kept in
+// chrome.storage.session, so a worker that was killed while still handling events leaves a gap
+// the next one can see and recover from.
+
+const SESSION_KEY = 'event_sequence';
+
+interface EventSequence {
+    /** Last event taken in */
+    received: number;
+    /** Last event whose handler finished */
+    handled: number;
+}
+
+type EventHandler = () => void | Promise<void>;
+
+export class EventGate {
+    private isOpen = false;
+    private queue: { label: string; handler: EventHandler }[] = [];
+    private received = 0;
+    private handled = 0;
+    private persistQueued = false;
+    // Read before this worker writes anything, so the previous worker's numbers survive to be checked
+    private readonly previous: Promise<EventSequence>;
+
+    constructor() {
+        this.previous = chrome.storage.session
+            .get(SESSION_KEY)
+            .then(result => (result[SESSION_KEY] as EventSequence | undefined) ?? { received: 0, handled: 0 })
+            .catch(err => {
+                console.warn('[EventGate] Could not read the event sequence:', err);
+                return { received: 0, handled: 0 };
+            });
+    }
+
+    /** Handle an event now if startup is done, otherwise once it is. */
+    dispatch(label: string, handler: EventHandler): void {
+        this.received++;
+        this.persistSoon();
+        if (this.isOpen) {
+            this.run(label, handler);
+        } else {
+            this.queue.push({ label, handler });
+        }
+    }
+
+    /**
+     * Startup is done: replay the queued events in order. Resolves to how many events the
+     * previous worker took in but never finished handling.
+     */
+    async open(): Promise<number> {
+        if (this.isOpen) return 0;
+        const previous = await this.previous;
+        this.isOpen = true;
+
+        const queued = this.queue;
+        this.queue = [];
+        if (queued.length > 0) {
+            console.log('[EventGate] Replaying', queued.length, 'events received during startup');
+        }
+        for (const { label, handler } of queued) {
+            this.run(label, handler);
+        }
+        return Math.max(0, previous.received - previous.handled);
+    }
+
+    /** Write the sequence now — for when the worker is about to be suspended. */
+    async flush(): Promise<void> {
+        const previous = await this.previous;
+        await chrome.storage.session.set({
+            [SESSION_KEY]: { received: previous.received + this.received, handled: previous.received + this.handled },
+        });
+    }
+
+    private run(label: string, handler: EventHandler): void {
+        const done = () => {
+            this.handled++;
+            this.persistSoon();
+        };
+        try {
+            const result = handler();
+            if (result instanceof Promise) {
+                result
+                    .catch(err => console.error(`[EventGate] ${label} failed:`, err))
+                    .finally(done);
+                return;
+            }
+        } catch (err) {
+            console.error(`[EventGate] ${label} failed:`, err);
+        }
+        done();
+    }
+
+    // One write per burst of events rather than one per event
+    private persistSoon(): void {
+        if (this.persistQueued) return;
+        this.persistQueued = true;
+        setTimeout(() => {
+            this.persistQueued = false;
+            this.flush().catch(err => console.warn('[EventGate] Could not save the event sequence:', err));
+        }, 0);
+    }
+}
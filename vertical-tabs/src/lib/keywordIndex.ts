@@ -0,0 +1,52 @@
+// Corpus-wide document frequency for title keywords.
+// Each open tab is one document; kept in sync incrementally by TabAssigner.
+
+export class KeywordIndex {
+    private readonly docFreq = new Map<string, number>();
+    private readonly docs = new Map<number, Set<string>>();
+
+    /** Number of documents (tabs) in the index */
+    get size(): number {
+        return this.docs.size;
+    }
+
+    /** Replace the keywords recorded for a tab. */
+    set(tabId: number, keywords: string[]): void {
+        this.remove(tabId);
+        const terms = new Set(keywords);
+        if (terms.size === 0) return;
+        this.docs.set(tabId, terms);
+        for (const term of terms) {
+            this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+        }
+    }
+
+    remove(tabId: number): void {
+        const terms = this.docs.get(tabId);
+        if (!terms) return;
+        this.docs.delete(tabId);
+        for (const term of terms) {
+            const next = (this.docFreq.get(term) ?? 1) - 1;
+            if (next <= 0) this.docFreq.delete(term);
+            else this.docFreq.set(term, next);
+        }
+    }
+
+    /** Drop everything and index the given tabs from scratch. */
+    rebuild(entries: Iterable<[tabId: number, keywords: string[]]>): void {
+        this.docs.clear();
+        this.docFreq.clear();
+        for (const [tabId, keywords] of entries) {
+            this.set(tabId, keywords);
+        }
+    }
+
+    /**
+     * Smoothed inverse document frequency. A term in every tab scores 1,
+     * a term nobody else has scores ln(N + 1) + 1.
+     */
+    idf(term: string): number {
+        const df = this.docFreq.get(term) ?? 0;
+        return Math.log((this.docs.size + 1) / (df + 1)) + 1;
+    }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildSynonymMap, normalizeKeywords, stem } from './keywordNormalizer';
+
+describe('stem', () => {
+    it.each([
+        // plurals
+        ['deploys', 'deploy'],
+        ['libraries', 'library'],
+        ['classes', 'class'],
+        ['status', 'status'],
+        ['news', 'news'],
+        // -ment needs a long stem; -ation folds onto the same one
+        ['document', 'document'],
+        ['documents', 'document'],
+        ['documentation', 'document'],
+        ['documented', 'document'],
+        ['deployment', 'deploy'],
+        ['payment', 'payment'],
+        // -ing / -ed, doubled consonants and the silent e
+        ['deploying', 'deploy'],
+        ['deployed', 'deploy'],
+        ['running', 'run'],
+        ['used', 'use'],
+        ['uses', 'use'],
+        ['using', 'use'],
+        ['configure', 'configur'],
+        ['configuring', 'configur'],
+        ['configuration', 'configur'],
+        // -ly only comes off adverbs
+        ['quickly', 'quick'],
+        ['apply', 'apply'],
+        ['applies', 'apply'],
+        ['reply', 'reply'],
+        ['replies', 'reply'],
+        ['family', 'family'],
+        ['families', 'family'],
+        ['app', 'app'],
+        ['daily', 'daily'],
+        // too short or no vowel left once stripped
+        ['bring', 'bring'],
+        ['shed', 'shed'],
+        // not plain a-z
+        ['v2', 'v2'],
+        ['東京', '東京'],
+    ])('%s → %s', (word, expected) => {
+        expect(stem(word)).toBe(expected);
+    });
+});
+
+describe('normalizeKeywords', () => {
+    it('maps synonyms onto the first term of their group and dedupes', () => {
+        const synonyms = buildSynonymMap([['kubernetes', 'k8s'], ['documentation', 'docs']]);
+        expect(normalizeKeywords(['k8s', 'kubernetes', 'docs', 'documents', 'deploying'], synonyms))
+            .toEqual([stem('kubernetes'), 'document', 'deploy']);
+    });
+
+    it('keeps terms without synonyms as their stem', () => {
+        expect(normalizeKeywords(['using', 'used', 'news'])).toEqual(['use', 'news']);
+    });
+});
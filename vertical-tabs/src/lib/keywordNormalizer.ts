@@ -0,0 +1,121 @@
+// Collapses keyword variants before they're stored, so "deploys", "deploying" and
+// "deployment" — or "k8s" and "kubernetes" — count as the same keyword.
+
+/** Groups of interchangeable terms; the first term of each group is the one stored. */
+export const DEFAULT_KEYWORD_SYNONYMS: string[][] = [
+    ['kubernetes', 'k8s'],
+    ['javascript', 'js'],
+    ['typescript', 'ts'],
+    ['postgres', 'postgresql', 'psql'],
+    ['documentation', 'docs'],
+    ['repository', 'repo'],
+    ['configuration', 'config'],
+];
+
+// Stems shorter than this are too ambiguous ("us" from "using")
+const MIN_STEM_LENGTH = 3;
+
+// Tried in order; the first that leaves a long enough stem wins. -ment needs a longer stem so
+// "document" stays whole while "deployment" and "documentation" still fold.
+const DERIVATIONAL_SUFFIXES: { suffix: string; minStem: number }[] = [
+    { suffix: 'ation', minStem: MIN_STEM_LENGTH },
+    { suffix: 'ment', minStem: 5 },
+    { suffix: 'ness', minStem: MIN_STEM_LENGTH },
+    { suffix: 'ing', minStem: MIN_STEM_LENGTH },
+    { suffix: 'edly', minStem: MIN_STEM_LENGTH },
+    { suffix: 'ed', minStem: MIN_STEM_LENGTH },
+    { suffix: 'ly', minStem: MIN_STEM_LENGTH },
+];
+
+// Suffixes that can eat a silent e: "using"/"used" lose it, "uses" keeps it
+const SILENT_E_SUFFIXES = new Set(['ing', 'edly', 'ed']);
+
+// Words that only look plural, or end in -ly without being an adverb — "apply" isn't "app" + ly
+const INVARIANT_WORDS = new Set([
+    'news', 'series', 'species',
+    'apply', 'reply', 'supply', 'imply', 'comply', 'multiply', 'rely', 'ally', 'fly',
+    'family', 'assembly', 'anomaly', 'monopoly', 'italy', 'july', 'early', 'only',
+    'daily', 'weekly', 'monthly', 'yearly', 'holy', 'ugly', 'jelly', 'belly', 'rally',
+]);
+
+const VOWEL = /[aeiouy]/;
+
+function stripPlural(word: string): string {
+    if (INVARIANT_WORDS.has(word)) return word;
+    if (word.endsWith('sses')) return word.slice(0, -2);
+    if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+    if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+        return word.slice(0, -1);
+    }
+    return word;
+}
+
+/**
+ * Light suffix-stripping stemmer for English-like words. Not Porter — just enough to
+ * fold plurals, -ing/-ed and the common -ment/-ation/-ness nouns onto one stem.
+ * Anything that isn't plain a-z (CJK bigrams, Cyrillic, "v2") passes through untouched.
+ */
+export function stem(word: string): string {
+    if (!/^[a-z]+$/.test(word) || word.length <= MIN_STEM_LENGTH) return word;
+
+    let result = stripPlural(word);
+    // "applies" is "apply" once the plural is off, and stays that
+    if (INVARIANT_WORDS.has(result)) return result;
+    for (const { suffix, minStem } of DERIVATIONAL_SUFFIXES) {
+        if (!result.endsWith(suffix)) continue;
+        const candidate = result.slice(0, -suffix.length);
+        if (!VOWEL.test(candidate)) continue;
+        if (candidate.length >= minStem) {
+            result = candidate;
+            // "running" → "runn" → "run"
+            if (/([^aeiouylsz])\1$/.test(result)) result = result.slice(0, -1);
+            break;
+        }
+        // Too short on its own, but whole again with the e the suffix dropped: "us" → "use"
+        if (SILENT_E_SUFFIXES.has(suffix) && candidate.length + 1 >= MIN_STEM_LENGTH) {
+            result = `${candidate}e`;
+            break;
+        }
+    }
+
+    // "configure"/"configuring" and "make"/"making" meet without the silent e
+    if (result.endsWith('e') && result.length > MIN_STEM_LENGTH) result = result.slice(0, -1);
+    return result;
+}
+
+export type SynonymMap = ReadonlyMap<string, string>;
+
+// Settings hand us the same groups array until the user edits it
+const synonymMapCache = new WeakMap<string[][], SynonymMap>();
+
+/** Stemmed term → stemmed canonical term, built from user-editable synonym groups. */
+export function buildSynonymMap(groups: string[][]): SynonymMap {
+    const cached = synonymMapCache.get(groups);
+    if (cached) return cached;
+
+    const map = new Map<string, string>();
+    for (const group of groups) {
+        const terms = group.map(term => stem(term.trim().toLowerCase())).filter(Boolean);
+        if (terms.length < 2) continue;
+        const [canonical] = terms;
+        for (const term of terms) {
+            if (term !== canonical) map.set(term, canonical);
+        }
+    }
+    synonymMapCache.set(groups, map);
+    return map;
+}
+
+/** Stem, map synonyms onto their canonical term, and dedupe (first occurrence kept). */
+export function normalizeKeywords(tokens: string[], synonyms?: SynonymMap): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const token of tokens) {
+        const stemmed = stem(token);
+        const normalized = synonyms?.get(stemmed) ?? stemmed;
+        if (seen.has(normalized)) continue;
+        seen.add(normalized);
+        result.push(normalized);
+    }
+    return result;
+}
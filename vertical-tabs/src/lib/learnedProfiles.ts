@@ -0,0 +1,107 @@
+// Per-space profiles learned from manual reassignments.
+// Every time the user moves a tab by hand we keep its features as a labelled example;
+// examples fade with age so old habits stop steering new tabs.
+
+import type { LearnedExample } from '@/types';
+import type { TabFeatures } from './similarityScorer';
+
+/** An example loses half its influence every this many days */
+export const LEARNED_HALF_LIFE_DAYS = 21;
+
+/** Oldest examples are dropped beyond this many */
+export const MAX_LEARNED_EXAMPLES = 300;
+
+// Below this decay factor an example no longer contributes and can be pruned
+const MIN_EXAMPLE_WEIGHT = 0.05;
+
+// A domain alone is weaker evidence than a path prefix — users often split one site across spaces
+const DOMAIN_EVIDENCE_FACTOR = 0.5;
+
+const HALF_LIFE_MS = LEARNED_HALF_LIFE_DAYS * 24 * 60 * 60 * 1000;
+
+export interface LearnedProfile {
+    /** Decayed example weight per registrable domain */
+    domains: Map<string, number>;
+    /** Decayed example weight per "domain/segment[/segment]" prefix, every depth */
+    prefixes: Map<string, number>;
+    /** Decayed example weight per title keyword */
+    keywords: Map<string, number>;
+}
+
+export function exampleWeight(example: LearnedExample, now: number): number {
+    const age = Math.max(0, now - example.timestamp);
+    return 0.5 ** (age / HALF_LIFE_MS);
+}
+
+/** Whether an example still carries enough weight to be worth keeping. */
+export function isExampleLive(example: LearnedExample, now: number): boolean {
+    return exampleWeight(example, now) >= MIN_EXAMPLE_WEIGHT;
+}
+
+function prefixKeys(domain: string, pathPrefix: string[]): string[] {
+    const keys: string[] = [];
+    for (let depth = 1; depth <= pathPrefix.length; depth++) {
+        keys.push(`${domain}/${pathPrefix.slice(0, depth).join('/')}`);
+    }
+    return keys;
+}
+
+function bump(map: Map<string, number>, key: string, weight: number): void {
+    map.set(key, (map.get(key) ?? 0) + weight);
+}
+
+export function buildLearnedProfiles(
+    examples: LearnedExample[],
+    now: number = Date.now(),
+): Map<string, LearnedProfile> {
+    const profiles = new Map<string, LearnedProfile>();
+    for (const example of examples) {
+        const weight = exampleWeight(example, now);
+        if (weight < MIN_EXAMPLE_WEIGHT) continue;
+
+        let profile = profiles.get(example.spaceId);
+        if (!profile) {
+            profile = { domains: new Map(), prefixes: new Map(), keywords: new Map() };
+            profiles.set(example.spaceId, profile);
+        }
+
+        if (example.domain) {
+            bump(profile.domains, example.domain, weight);
+            for (const key of prefixKeys(example.domain, example.pathPrefix)) {
+                bump(profile.prefixes, key, weight);
+            }
+        }
+        for (const keyword of new Set(example.keywords)) {
+            bump(profile.keywords, keyword, weight);
+        }
+    }
+    return profiles;
+}
+
+/**
+ * How strongly past corrections point this tab at the profile's space, in [0, 1).
+ * Evidence saturates: one fresh correction gives ~0.63, a few make it near-certain.
+ */
+export function learnedScore(newTab: TabFeatures, profile?: LearnedProfile): number {
+    if (!profile) return 0;
+
+    let prefixEvidence = 0;
+    if (newTab.domain) {
+        for (const key of prefixKeys(newTab.domain, newTab.pathPrefix)) {
+            prefixEvidence = Math.max(prefixEvidence, profile.prefixes.get(key) ?? 0);
+        }
+    }
+
+    const domainEvidence = newTab.domain
+        ? (profile.domains.get(newTab.domain) ?? 0) * DOMAIN_EVIDENCE_FACTOR
+        : 0;
+
+    // Average over the tab's keywords so one shared word doesn't count as a full match
+    const keywords = new Set(newTab.keywords);
+    let keywordEvidence = 0;
+    for (const keyword of keywords) keywordEvidence += profile.keywords.get(keyword) ?? 0;
+    if (keywords.size > 0) keywordEvidence /= keywords.size;
+
+    const evidence = Math.max(prefixEvidence, domainEvidence, keywordEvidence);
+    return 1 - Math.exp(-evidence);
+}
@@ -1,4 +1,4 @@
-import type { ExtendedTab, SerializedTabState, Space, UserSettings, SavedItem } from '@/types';
+import type { ExtendedTab, HistoryEvent, HistoryState, ImportOptions, ReclassifyScope, SerializedTabState, Space, SpaceProposal, SpaceRule, UserSettings, SavedItem } from '@/types';
 import type { TabAnalysis } from '@/lib/tab-analyzer';
 
 // ============================================
@@ -24,7 +24,7 @@ export type UIMessage =
   | { type: 'RESOLVE_NAVIGATION_INPUT'; input: string }
   // Space actions
   | { type: 'ASSIGN_TAB_TO_SPACE'; tabId: number; spaceId: string }
-  | { type: 'CREATE_SPACE'; name: string; color: string; icon?: string }
+  | { type: 'CREATE_SPACE'; name: string; color: string; icon?: string; rules?: SpaceRule[] }
   | { type: 'DELETE_SPACE'; spaceId: string }
   | { type: 'RENAME_SPACE'; spaceId: string; name: string }
   | {
@@ -33,9 +33,32 @@ export type UIMessage =
     updates: { name?: string; color?: string; icon?: string; rules?: Space['rules']; lastAccessedAt?: number };
   }
   | { type: 'SET_ACTIVE_SPACE'; spaceId: string }
+  // Save and close a space's tabs, or reopen them in a new window
+  | { type: 'ARCHIVE_SPACE'; spaceId: string }
+  | { type: 'RESTORE_SPACE'; spaceId: string }
+  | { type: 'GET_ASSIGNMENT_EXPLANATION'; tabId: number }
+  | { type: 'ACCEPT_SUGGESTION'; tabId: number }
+  | { type: 'DISMISS_SUGGESTION'; tabId: number }
+  // Without `apply` this only previews; `tabIds` narrows an apply to moves picked from the preview
+  | { type: 'RECLASSIFY_TABS'; scope: ReclassifyScope; apply?: boolean; tabIds?: number[] }
+  // "Suggest spaces": cluster unsorted tabs into proposals, then create the ones the user kept
+  | { type: 'DISCOVER_SPACES' }
+  | { type: 'CREATE_PROPOSED_SPACES'; proposals: SpaceProposal[] }
+  // Undo/redo journal
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
   // Settings
   | { type: 'GET_SETTINGS' }
   | { type: 'UPDATE_SETTINGS'; updates: Partial<UserSettings> }
+  | { type: 'GET_LEARNING_SUMMARY' }
+  | { type: 'RESET_LEARNING' }
+  // Export/import of spaces, settings and saved items (`data` is the parsed, unvalidated file)
+  | { type: 'EXPORT_STATE'; settings: boolean; savedItems: boolean; openTabs: boolean }
+  | { type: 'IMPORT_STATE'; data: unknown; options: ImportOptions }
+  // Diagnostics
+  | { type: 'GET_DIAGNOSTICS' }
+  | { type: 'PRUNE_ORPHANED_TABS' }
+  | { type: 'COMPACT_STORAGE' }
   // Saved Items
   | { type: 'GET_SAVED_ITEMS' }
   | { type: 'ADD_SAVED_ITEM'; item: SavedItem }
@@ -59,6 +82,8 @@ export type BackgroundMessage =
   | { type: 'WINDOW_FOCUSED'; windowId: number }
   // Space updates
   | { type: 'SPACES_UPDATED'; spaces: Space[] }
+  | { type: 'ASSIGNMENT_SUGGESTED'; tabId: number; spaceId: string }
+  | { type: 'HISTORY_UPDATED'; history: HistoryState; event?: HistoryEvent }
   // Side panel UI events
   | { type: 'SIDE_PANEL_CLOSING'; windowId: number }
   // Tab analysis results
@@ -96,8 +121,8 @@ function isBackgroundMessage(message: Message): message is BackgroundMessage {
   const bgTypes = [
     'STATE_SYNC', 'TAB_CREATED', 'TAB_REMOVED', 'TAB_UPDATED',
     'TAB_MOVED', 'TAB_ACTIVATED', 'WINDOW_CREATED', 'WINDOW_REMOVED',
-    'WINDOW_FOCUSED', 'SPACES_UPDATED', 'SIDE_PANEL_CLOSING', 'TAB_ANALYZED',
-    'SAVED_ITEMS_UPDATED'
+    'WINDOW_FOCUSED', 'SPACES_UPDATED', 'ASSIGNMENT_SUGGESTED', 'HISTORY_UPDATED', 'SIDE_PANEL_CLOSING',
+    'TAB_ANALYZED', 'SAVED_ITEMS_UPDATED'
   ];
   return bgTypes.includes(message.type);
 }
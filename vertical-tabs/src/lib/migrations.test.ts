@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runMigrations, type Migration, type MigrationOptions, type StorageData } from './migrations';
+
+// An in-memory chrome.storage.local; `failSet` makes the next matching set() reject
+function mockLocalStorage(initial: StorageData) {
+    const store: StorageData = structuredClone(initial);
+    const state = { failSet: null as ((items: StorageData) => boolean) | null };
+    const local = {
+        get: vi.fn(async (keys: string | string[] | null) => {
+            if (keys === null) return structuredClone(store);
+            const wanted = typeof keys === 'string' ? [keys] : keys;
+            return Object.fromEntries(wanted.filter(key => key in store).map(key => [key, structuredClone(store[key])]));
+        }),
+        set: vi.fn(async (items: StorageData) => {
+            if (state.failSet?.(items)) {
+                state.failSet = null;
+                throw new Error('QUOTA_BYTES quota exceeded');
+            }
+            Object.assign(store, structuredClone(items));
+        }),
+        remove: vi.fn(async (keys: string | string[]) => {
+            for (const key of typeof keys === 'string' ? [keys] : keys) delete store[key];
+        }),
+    };
+    vi.stubGlobal('chrome', { storage: { local } });
+    return { store, state };
+}
+
+const renameSpaces: Migration = {
+    version: 2,
+    description: 'rename spaces to space_list',
+    up: ({ spaces, ...rest }) => ({ ...rest, space_list: spaces }),
+    down: ({ space_list, ...rest }) => ({ ...rest, spaces: space_list }),
+};
+
+function options(overrides: Partial<MigrationOptions> = {}): MigrationOptions {
+    return {
+        migrations: [renameSpaces],
+        targetVersion: 2,
+        versionKey: 'schema_version',
+        backupKey: 'migration_backup',
+        keys: ['spaces', 'space_list'],
+        validate: () => null,
+        ...overrides,
+    };
+}
+
+const original = { spaces: [{ id: 'work' }], unrelated: 'kept' };
+
+describe('runMigrations', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('does nothing when the data is current', async () => {
+        const { store } = mockLocalStorage({ ...original, schema_version: 2 });
+        expect(await runMigrations(options())).toEqual({ status: 'current', version: 2 });
+        expect(store.migration_backup).toBeUndefined();
+    });
+
+    it('migrates, backs up the old data and records the version', async () => {
+        const { store } = mockLocalStorage(original);
+        expect(await runMigrations(options())).toEqual({ status: 'migrated', from: 1, to: 2 });
+        expect(store).toMatchObject({ space_list: [{ id: 'work' }], unrelated: 'kept', schema_version: 2 });
+        expect(store.spaces).toBeUndefined();
+        expect(store.migration_backup).toMatchObject({ version: 1, data: { spaces: [{ id: 'work' }] } });
+    });
+
+    it('puts the data back when a step throws', async () => {
+        const { store } = mockLocalStorage(original);
+        const broken: Migration = { ...renameSpaces, up: () => { throw new Error('bad step'); } };
+
+        const outcome = await runMigrations(options({ migrations: [broken] }));
+        expect(outcome).toEqual({ status: 'failed', version: 1, error: 'bad step' });
+        expect(store).toMatchObject({ ...original, schema_version: 1 });
+        expect(store.space_list).toBeUndefined();
+    });
+
+    it('puts the data back when the result does not validate', async () => {
+        const { store } = mockLocalStorage(original);
+
+        const outcome = await runMigrations(options({ validate: () => 'no spaces' }));
+        expect(outcome).toMatchObject({ status: 'failed', version: 1 });
+        expect(store).toMatchObject({ ...original, schema_version: 1 });
+    });
+
+    it('puts the data back when writing the result fails partway', async () => {
+        const { store, state } = mockLocalStorage(original);
+        state.failSet = items => 'schema_version' in items && items.schema_version === 2;
+
+        const outcome = await runMigrations(options());
+        expect(outcome).toMatchObject({ status: 'failed', version: 1 });
+        expect(store).toMatchObject({ ...original, schema_version: 1 });
+        expect(store.space_list).toBeUndefined();
+    });
+
+    it('skips the migration without touching the data when the backup cannot be written', async () => {
+        const { store, state } = mockLocalStorage(original);
+        state.failSet = items => 'migration_backup' in items;
+
+        const outcome = await runMigrations(options());
+        expect(outcome).toEqual({ status: 'failed', version: 1, error: 'QUOTA_BYTES quota exceeded' });
+        expect(store).toEqual(original);
+    });
+});
@@ -0,0 +1,128 @@
+// Versioned migrations of what's kept in chrome.storage.local.
+// Steps are pure functions over a snapshot of the stored keys. Before any step runs the snapshot is
+// written to a backup key; the migrated result must pass validation before it replaces the stored
+// data, and if a step throws or the result is rejected the backup is put back untouched.
+
+export type StorageData = Record<string, unknown>;
+
+export interface Migration {
+    /** Schema version this step produces; it runs on data at `version - 1` */
+    version: number;
+    description: string;
+    up(data: StorageData): StorageData;
+    /** Undo `up`, for going back to an older schema */
+    down(data: StorageData): StorageData;
+}
+
+export interface MigrationBackup {
+    version: number;
+    createdAt: number;
+    data: StorageData;
+}
+
+export interface MigrationOptions {
+    /** Ordered by version, starting at 2 — version 1 is the unversioned original layout */
+    migrations: Migration[];
+    targetVersion: number;
+    versionKey: string;
+    backupKey: string;
+    /** Every key the migrations read or write */
+    keys: string[];
+    /** Families of keys (one per tab, say) the migrations own as well */
+    keyPrefixes?: string[];
+    /** A reason the data isn't usable, or null when it is */
+    validate(data: StorageData): string | null;
+}
+
+export type MigrationOutcome =
+    | { status: 'current'; version: number }
+    | { status: 'migrated'; from: number; to: number }
+    | { status: 'failed'; version: number; error: string };
+
+// The steps to go from one version to another, in the order to run them
+function plan(migrations: Migration[], from: number, to: number): { step: Migration; direction: 'up' | 'down' }[] {
+    const byVersion = new Map(migrations.map(step => [step.version, step]));
+    const steps: { step: Migration; direction: 'up' | 'down' }[] = [];
+    if (from < to) {
+        for (let version = from + 1; version <= to; version++) {
+            const step = byVersion.get(version);
+            if (!step) throw new Error(`No migration to version ${version}`);
+            steps.push({ step, direction: 'up' });
+        }
+    } else {
+        for (let version = from; version > to; version--) {
+            const step = byVersion.get(version);
+            // Data from a newer build whose steps this build doesn't know
+            if (!step) throw new Error(`No migration back from version ${version}`);
+            steps.push({ step, direction: 'down' });
+        }
+    }
+    return steps;
+}
+
+// Replace the owned keys with `data`: owned keys missing from it are removed
+async function writeData(owns: (key: string) => boolean, data: StorageData): Promise<void> {
+    const present = Object.fromEntries(Object.entries(data).filter(([key]) => owns(key)));
+    const stored = await chrome.storage.local.get(null);
+    const absent = Object.keys(stored).filter(key => owns(key) && !(key in present));
+    await chrome.storage.local.set(present);
+    if (absent.length > 0) await chrome.storage.local.remove(absent);
+}
+
+/** Read the last pre-migration backup, if any. */
+export async function loadMigrationBackup(backupKey: string): Promise<MigrationBackup | undefined> {
+    const result = await chrome.storage.local.get(backupKey);
+    return result[backupKey] as MigrationBackup | undefined;
+}
+
+/** Bring stored data to `targetVersion`, backing it up first and restoring the backup on failure. */
+export async function runMigrations(options: MigrationOptions): Promise<MigrationOutcome> {
+    const { versionKey, backupKey, targetVersion } = options;
+    const owns = (key: string) =>
+        options.keys.includes(key) || (options.keyPrefixes ?? []).some(prefix => key.startsWith(prefix));
+
+    const version = (await chrome.storage.local.get(versionKey))[versionKey];
+    const from = typeof version === 'number' ? version : 1;
+    if (from === targetVersion) return { status: 'current', version: from };
+
+    const stored = await chrome.storage.local.get(null);
+    const snapshot: StorageData = {};
+    for (const [key, value] of Object.entries(stored)) {
+        if (owns(key)) snapshot[key] = value;
+    }
+    const backup: MigrationBackup = { version: from, createdAt: Date.now(), data: snapshot };
+    try {
+        await chrome.storage.local.set({ [backupKey]: backup });
+    } catch (err) {
+        // Usually the quota. Nothing has been touched yet — stay on the old version and try next start.
+        console.error(`[Migrations] Could not back up version ${from}, skipping migration:`, err);
+        return { status: 'failed', version: from, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    try {
+        let data: StorageData = structuredClone(snapshot);
+        for (const { step, direction } of plan(options.migrations, from, targetVersion)) {
+            console.log(`[Migrations] ${direction} ${step.version}: ${step.description}`);
+            data = direction === 'up' ? step.up(data) : step.down(data);
+        }
+
+        const problem = options.validate(data);
+        if (problem) throw new Error(`Migrated data is invalid: ${problem}`);
+
+        await writeData(owns, data);
+        await chrome.storage.local.set({ [versionKey]: targetVersion });
+        return { status: 'migrated', from, to: targetVersion };
+    } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        console.error(`[Migrations] Migration from version ${from} failed, restoring backup:`, err);
+        // A failed write may have landed partway — put every key back as it was
+        try {
+            await writeData(owns, backup.data);
+            await chrome.storage.local.set({ [versionKey]: from });
+        } catch (restoreErr) {
+            // The backup stays under its key for a rollback by hand
+            console.error('[Migrations] Could not restore the backup:', restoreErr);
+        }
+        return { status: 'failed', version: from, error };
+    }
+}
@@ -0,0 +1,85 @@
+// Opt-in page signals: <meta> description/keywords, og: tags and the first headings.
+// Read by injecting collectPageSignals() into the tab once it finishes loading; only
+// runs when the setting is on and the user granted the optional host permission.
+
+import type { PageSignals } from '@/types';
+
+const MAX_HEADINGS = 3;
+const MAX_TEXT_LENGTH = 300;
+
+/**
+ * Runs inside the page via chrome.scripting.executeScript — must stay self-contained
+ * (no imports or module-level references), since only its source is sent over.
+ */
+export function collectPageSignals(): PageSignals {
+    const limit = 300;
+    const clean = (text: string | null | undefined) => {
+        const trimmed = (text ?? '').replace(/\s+/g, ' ').trim();
+        return trimmed ? trimmed.slice(0, limit) : undefined;
+    };
+    const meta = (selector: string) => clean(document.querySelector<HTMLMetaElement>(selector)?.content);
+
+    const headings = Array.from(document.querySelectorAll('h1, h2'))
+        .map(el => clean(el.textContent))
+        .filter((text): text is string => !!text)
+        .slice(0, 3);
+
+    return {
+        url: location.href,
+        description: meta('meta[name="description" i]'),
+        keywords: meta('meta[name="keywords" i]'),
+        ogTitle: meta('meta[property="og:title"]'),
+        ogDescription: meta('meta[property="og:description"]'),
+        ogSiteName: meta('meta[property="og:site_name"]'),
+        headings,
+    };
+}
+
+function isWebUrl(url: string): boolean {
+    return url.startsWith('http://') || url.startsWith('https://');
+}
+
+/** Inject the collector into a tab; null when not permitted or the page refuses. */
+export async function fetchPageSignals(tabId: number, url: string): Promise<PageSignals | null> {
+    if (!isWebUrl(url)) return null;
+
+    const granted = await chrome.permissions.contains({ origins: [`${new URL(url).origin}/*`] });
+    if (!granted) return null;
+
+    try {
+        const [injection] = await chrome.scripting.executeScript({
+            target: { tabId },
+            func: collectPageSignals,
+        });
+        const signals = injection?.result as PageSignals | undefined;
+        if (!signals) return null;
+        // The page can tamper with what the collector returns — re-apply the limits here
+        const text = (value: unknown) => (typeof value === 'string' ? value.slice(0, MAX_TEXT_LENGTH) : undefined);
+        return {
+            url,
+            description: text(signals.description),
+            keywords: text(signals.keywords),
+            ogTitle: text(signals.ogTitle),
+            ogDescription: text(signals.ogDescription),
+            ogSiteName: text(signals.ogSiteName),
+            headings: (Array.isArray(signals.headings) ? signals.headings : [])
+                .slice(0, MAX_HEADINGS)
+                .map(text)
+                .filter((h): h is string => !!h),
+        };
+    } catch (err) {
+        // Chrome Web Store pages, PDF viewer, tab closed mid-injection...
+        console.warn(`[PageSignals] #${tabId} injection failed:`, err);
+        return null;
+    }
+}
+
+/** All the text worth tokenizing from a page's signals, most descriptive first. */
+export function pageSignalTexts(signals: PageSignals): string[] {
+    return [
+        signals.ogTitle,
+        signals.description ?? signals.ogDescription,
+        signals.keywords,
+        ...signals.headings,
+    ].filter((text): text is string => !!text);
+}
@@ -0,0 +1,56 @@
+// Public suffix matching (https://publicsuffix.org/list/), ICANN and private sections.
+// Data lives in publicSuffixData.ts — regenerate it with `npm run update-suffixes`.
+
+import { PUBLIC_SUFFIX_DATA } from './publicSuffixData';
+
+// Parsed lazily — most service-worker wakeups never analyze a URL
+let rules: Set<string> | null = null;
+
+function getRules(): Set<string> {
+    if (rules) return rules;
+    rules = new Set();
+    for (const group of PUBLIC_SUFFIX_DATA.split(';')) {
+        const [tld, rest] = group.split(':');
+        for (const entry of rest.split(',')) {
+            if (!entry) {
+                rules.add(tld);
+            } else if (entry.startsWith('!')) {
+                rules.add(`!${entry.slice(1)}.${tld}`);
+            } else {
+                rules.add(`${entry}.${tld}`);
+            }
+        }
+    }
+    return rules;
+}
+
+/**
+ * The public suffix of a lowercase ASCII hostname, e.g. "co.uk" for "news.bbc.co.uk"
+ * or "github.io" for "foo.github.io". Unlisted TLDs fall back to the last label.
+ */
+export function getPublicSuffix(hostname: string): string {
+    const ruleSet = getRules();
+    const labels = hostname.split('.');
+
+    // Walk from the longest candidate down; the first hit is the longest matching rule.
+    for (let i = 0; i < labels.length; i++) {
+        const candidate = labels.slice(i).join('.');
+        // Exception rules win outright and carve one label off their wildcard
+        if (ruleSet.has(`!${candidate}`)) return labels.slice(i + 1).join('.');
+        // "*.ck" covers one more label than "ck" would, so it's checked first
+        if (i > 0 && ruleSet.has(`*.${candidate}`)) return labels.slice(i - 1).join('.');
+        if (ruleSet.has(candidate)) return candidate;
+    }
+    return labels[labels.length - 1];
+}
+
+/**
+ * Public suffix plus one label ("bbc.co.uk", "foo.github.io"), or null when the
+ * hostname is itself a public suffix.
+ */
+export function getRegistrableDomain(hostname: string): string | null {
+    const suffix = getPublicSuffix(hostname);
+    if (suffix === hostname) return null;
+    const labels = hostname.split('.');
+    return labels.slice(-(suffix.split('.').length + 1)).join('.');
+}
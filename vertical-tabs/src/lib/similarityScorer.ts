@@ -1,19 +1,57 @@
 import type { TabAnalysis } from "./tab-analyzer";
+import type { ScoreWeights } from "@/types";
+import { learnedScore, type LearnedProfile } from "./learnedProfiles";
 
-export type TabFeatures = Pick<TabAnalysis, 'domain' | 'subdomains' | 'keywords'>;
+export type TabFeatures = Pick<
+    TabAnalysis,
+    'domain' | 'subdomains' | 'keywords' | 'pathSegments' | 'pathPrefix' | 'entities'
+>;
 
 export interface SpaceCorpus {
     spaceID: string;
     tabs: TabFeatures[];
 }
 
-export const DEFAULT_DOMAIN_THRESHOLD = 0.5;
-export const DEFAULT_JACCARD_THRESHOLD = 0.08;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.45;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+    domain: 0.4,
+    keywords: 0.25,
+    pathPrefix: 0.2,
+    path: 0.05,
+    entities: 0.3,
+    opener: 0.1,
+    learned: 0.3,
+};
 
 export interface SpaceScore {
     spaceID: string;
     domain: number;
+    /** Plain keyword Jaccard against the pooled space vocabulary — diagnostic only */
     jaccard: number;
+    /** IDF-weighted cosine against the closest tab in the space */
+    tfidf: number;
+    /** Leading-path agreement with same-domain tabs, e.g. "github.com/org-a" vs "github.com/org-b" */
+    pathPrefix: number;
+    /** Path token overlap, order-insensitive */
+    path: number;
+    /** Shared site entities — same repo, Jira project, doc... */
+    entities: number;
+    opener: number;
+    /** Agreement with the space's profile learned from manual reassignments */
+    learned: number;
+    /** Weighted blend of the signals above, in [0, 1] */
+    combined: number;
+}
+
+export interface ScoringOptions {
+    weights: ScoreWeights;
+    /** Space the opener tab lives in, if the tab was opened from another tab */
+    openerSpaceID?: string;
+    /** Corpus-wide inverse document frequency; every term weighs 1 when omitted */
+    idf?: (term: string) => number;
+    /** Learned profiles keyed by space ID */
+    learnedProfiles?: Map<string, LearnedProfile>;
 }
 
 function domainScore(newTab: TabFeatures, tabs: TabFeatures[]): number {
@@ -47,30 +85,172 @@ function jaccardScore(newTab: TabFeatures, space: SpaceCorpus): number {
     return intersection / union;
 }
 
+// Cosine similarity of IDF-weighted keyword sets against each tab in the space; best wins.
+// Comparing tab-to-tab rather than against the pooled space vocabulary keeps big spaces
+// from diluting the score, and IDF keeps generic words ("docs", "dashboard") from dominating.
+function tfidfScore(newTab: TabFeatures, tabs: TabFeatures[], idf: (term: string) => number): number {
+    const tabTerms = new Set(newTab.keywords);
+    if (tabTerms.size === 0) return 0;
+
+    const weights = new Map<string, number>();
+    const weightOf = (term: string) => {
+        let w = weights.get(term);
+        if (w === undefined) {
+            w = idf(term) ** 2;
+            weights.set(term, w);
+        }
+        return w;
+    };
+
+    let tabNorm = 0;
+    for (const term of tabTerms) tabNorm += weightOf(term);
+    if (tabNorm === 0) return 0;
+
+    let best = 0;
+    for (const tab of tabs) {
+        if (tab.keywords.length === 0) continue;
+        let dot = 0;
+        let otherNorm = 0;
+        for (const term of new Set(tab.keywords)) {
+            const w = weightOf(term);
+            otherNorm += w;
+            if (tabTerms.has(term)) dot += w;
+        }
+        if (dot === 0) continue;
+        best = Math.max(best, dot / Math.sqrt(tabNorm * otherNorm));
+    }
+    return best;
+}
+
+// Best leading-segment agreement with any same-domain tab in the space.
+// Shorter prefix is the denominator, so "/org-a" fully agrees with "/org-a/repo".
+function pathPrefixScore(newTab: TabFeatures, tabs: TabFeatures[]): number {
+    if (!newTab.domain || newTab.pathPrefix.length === 0) return 0;
+    let best = 0;
+    for (const tab of tabs) {
+        if (tab.domain !== newTab.domain || tab.pathPrefix.length === 0) continue;
+        const depth = Math.min(tab.pathPrefix.length, newTab.pathPrefix.length);
+        let common = 0;
+        while (common < depth && tab.pathPrefix[common] === newTab.pathPrefix[common]) common++;
+        best = Math.max(best, common / depth);
+        if (best === 1) break;
+    }
+    return best;
+}
+
+// Share of the new tab's path segments that already appear somewhere in the space.
+// One-sided on purpose — a space's path vocabulary grows with every tab in it.
+function pathScore(newTab: TabFeatures, space: SpaceCorpus): number {
+    const tabSegments = new Set(newTab.pathSegments);
+    if (tabSegments.size === 0) return 0;
+    const spaceSegments = new Set(space.tabs.flatMap(t => t.pathSegments));
+    if (spaceSegments.size === 0) return 0;
+
+    let shared = 0;
+    for (const seg of tabSegments) {
+        if (spaceSegments.has(seg)) shared++;
+    }
+    return shared / tabSegments.size;
+}
+
+// Learned evidence only counts for tabs that some past correction actually covers —
+// otherwise every space would be diluted by a signal that is zero across the board.
+function hasLearnedEvidence(newTab: TabFeatures, profiles?: Map<string, LearnedProfile>): boolean {
+    if (!profiles) return false;
+    for (const profile of profiles.values()) {
+        if (learnedScore(newTab, profile) > 0) return true;
+    }
+    return false;
+}
+
+// Share of the new tab's site entities (repo, owner, Jira project...) already present in the space
+function entitiesScore(newTab: TabFeatures, space: SpaceCorpus): number {
+    const tabEntities = new Set(newTab.entities);
+    if (tabEntities.size === 0) return 0;
+    const spaceEntities = new Set(space.tabs.flatMap(t => t.entities));
+    if (spaceEntities.size === 0) return 0;
+
+    let shared = 0;
+    for (const entity of tabEntities) {
+        if (spaceEntities.has(entity)) shared++;
+    }
+    return shared / tabEntities.size;
+}
+
+type Signals = Omit<SpaceScore, 'combined' | 'spaceID'>;
+
+// Weighted average over the signals the new tab can actually provide. A tab with no
+// path, title or opener isn't penalised for it — those weights just drop out.
+function combine(
+    newTab: TabFeatures,
+    signals: Signals,
+    options: ScoringOptions,
+): number {
+    const { weights } = options;
+    const parts: [weight: number, value: number, applicable: boolean][] = [
+        [weights.domain, signals.domain, !!newTab.domain],
+        [weights.keywords, signals.tfidf, newTab.keywords.length > 0],
+        [weights.pathPrefix, signals.pathPrefix, newTab.pathPrefix.length > 0],
+        [weights.path, signals.path, newTab.pathSegments.length > 0],
+        [weights.entities, signals.entities, newTab.entities.length > 0],
+        [weights.opener, signals.opener, options.openerSpaceID !== undefined],
+        [weights.learned, signals.learned, hasLearnedEvidence(newTab, options.learnedProfiles)],
+    ];
+
+    let total = 0;
+    let sum = 0;
+    for (const [weight, value, applicable] of parts) {
+        if (!applicable) continue;
+        const w = Math.max(0, weight ?? 0);
+        total += w;
+        sum += w * value;
+    }
+    return total === 0 ? 0 : sum / total;
+}
+
 export function scoreSpace(
     newTab: TabFeatures,
     space: SpaceCorpus,
+    options: ScoringOptions,
 ): SpaceScore {
-    return {
-        spaceID: space.spaceID,
+    const signals: Signals = {
         domain: domainScore(newTab, space.tabs),
         jaccard: jaccardScore(newTab, space),
+        tfidf: tfidfScore(newTab, space.tabs, options.idf ?? (() => 1)),
+        pathPrefix: pathPrefixScore(newTab, space.tabs),
+        path: pathScore(newTab, space),
+        entities: entitiesScore(newTab, space),
+        opener: options.openerSpaceID === space.spaceID ? 1 : 0,
+        learned: learnedScore(newTab, options.learnedProfiles?.get(space.spaceID)),
+    };
+    return {
+        spaceID: space.spaceID,
+        ...signals,
+        combined: combine(newTab, signals, options),
     };
 }
 
-export function rankSpaces(
+/** Every space, best first — including ones below the threshold. */
+export function scoreAllSpaces(
     newTab: TabFeatures,
     spaces: SpaceCorpus[],
-    domainThreshold: number,
-    jaccardThreshold: number,
+    options: ScoringOptions,
 ): SpaceScore[] {
     return spaces
-        .map(s => scoreSpace(newTab, s))
-        .filter(s => s.domain >= domainThreshold || s.jaccard >= jaccardThreshold)
-        .sort((a, b) => {
-            const aMax = Math.max(a.domain, a.jaccard);
-            const bMax = Math.max(b.domain, b.jaccard);
-            return bMax - aMax;
-        });
+        .map(s => scoreSpace(newTab, s, options))
+        .sort((a, b) => b.combined - a.combined);
+}
+
+export function passesThreshold(score: SpaceScore, threshold: number): boolean {
+    return score.combined > 0 && score.combined >= threshold;
 }
 
+export function rankSpaces(
+    newTab: TabFeatures,
+    spaces: SpaceCorpus[],
+    threshold: number,
+    options: ScoringOptions,
+): SpaceScore[] {
+    return scoreAllSpaces(newTab, spaces, options)
+        .filter(s => passesThreshold(s, threshold));
+}
@@ -0,0 +1,8 @@
+// Space color palette, shared by the space editor and "Suggest spaces"
+export const SPACE_COLORS = [
+    '#FFB3BA', '#FFDFBA', '#FFFFBA', '#BAFFC9', '#BAE1FF',
+    '#E0BBE4', '#957DAD', '#D291BC', '#FEC8D8', '#FFDFD3',
+    '#B5EAD7', '#C7CEEA', '#A8E6CF', '#DCEDC1', '#FFD3B6',
+    '#FFAAA5', '#FF8B94', '#a8dadc', '#457b9d', '#e9c46a',
+    '#2a9d8f', '#e76f51', '#f4a261', '#9b5de5', '#00bbf9',
+];
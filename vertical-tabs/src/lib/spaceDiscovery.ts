@@ -0,0 +1,243 @@
+// "Suggest spaces": group open tabs into proposed spaces.
+// Average-linkage agglomerative clustering over the scorer's pairwise similarity,
+// then each cluster is named after what its tabs share (a repo, a few title words, a site).
+
+import { scoreSpace, type TabFeatures } from './similarityScorer';
+import { tokenizeTitle } from './tokenizer';
+import { normalizeKeywords, stem, type SynonymMap } from './keywordNormalizer';
+import type { ScoreWeights, SpaceProposal } from '@/types';
+
+export interface DiscoveryTab {
+    tabId: number;
+    title: string;
+    features: TabFeatures;
+}
+
+export interface DiscoveryOptions {
+    weights: ScoreWeights;
+    /** Clusters stop merging once their average similarity drops below this */
+    threshold: number;
+    idf?: (term: string) => number;
+    synonyms?: SynonymMap;
+    /** Colors and names of existing spaces — proposals avoid reusing them */
+    usedColors: string[];
+    usedNames: string[];
+    palette: string[];
+}
+
+// A lone tab isn't a space
+const MIN_CLUSTER_SIZE = 2;
+
+const MAX_PROPOSALS = 8;
+
+// A name part has to cover at least this share of the cluster's tabs
+const MIN_NAME_SUPPORT = 0.5;
+
+// Entity kinds that read well as a space name, most specific first. IDs (docs, videos,
+// single issues) are left out — they never make a useful name.
+const NAMEABLE_ENTITY_KINDS = ['github:repo', 'jira:project', 'confluence:space', 'github:owner', 'youtube:channel'];
+
+const DEFAULT_ICON = '📁';
+
+// First hint whose terms meet the cluster's keywords or site names wins
+const ICON_HINTS: [icon: string, terms: string[]][] = [
+    ['📋', ['jira', 'ticket', 'issue', 'sprint', 'trello', 'linear', 'task', 'backlog']],
+    ['☁️', ['aws', 'azure', 'gcp', 'cloud', 'kubernetes', 'docker', 'terraform', 'deploy', 'server']],
+    ['💻', ['github', 'gitlab', 'bitbucket', 'stackoverflow', 'code', 'api', 'developer', 'programming', 'javascript', 'typescript', 'python', 'rust', 'npm']],
+    ['📚', ['docs', 'documentation', 'wiki', 'confluence', 'tutorial', 'guide', 'learn', 'course', 'reference']],
+    ['📊', ['analytics', 'dashboard', 'metrics', 'grafana', 'report', 'spreadsheet', 'sheets']],
+    ['📅', ['calendar', 'meeting', 'schedule', 'zoom', 'meet', 'agenda']],
+    ['🎨', ['figma', 'design', 'dribbble', 'behance', 'sketch', 'font', 'color']],
+    ['🎬', ['youtube', 'netflix', 'video', 'twitch', 'movie', 'film', 'trailer']],
+    ['🎧', ['spotify', 'music', 'podcast', 'soundcloud', 'album', 'playlist']],
+    ['🛒', ['amazon', 'ebay', 'shop', 'store', 'cart', 'price', 'deal', 'buy']],
+    ['✈️', ['travel', 'flight', 'hotel', 'booking', 'airbnb', 'trip', 'vacation']],
+    ['💰', ['bank', 'finance', 'invest', 'stock', 'crypto', 'budget', 'tax', 'salary']],
+    ['🍕', ['recipe', 'food', 'restaurant', 'cooking', 'menu']],
+    ['📣', ['news', 'reddit', 'twitter', 'hacker', 'blog', 'article']],
+];
+
+// Hint terms are compared as stems, the same way keywords are stored
+let iconHints: Map<string, string> | null = null;
+
+function getIconHints(): Map<string, string> {
+    if (!iconHints) {
+        iconHints = new Map();
+        for (const [icon, terms] of ICON_HINTS) {
+            for (const term of terms) {
+                if (!iconHints.has(stem(term))) iconHints.set(stem(term), icon);
+            }
+        }
+    }
+    return iconHints;
+}
+
+// Symmetric pairwise similarity: the scorer is one-sided (tab vs. space), so score both ways.
+// Title overlap alone may also link two tabs — otherwise the domain weight would keep the
+// same topic on different sites ("Kubernetes" docs, forum and blog) from ever meeting.
+function pairSimilarity(a: TabFeatures, b: TabFeatures, options: DiscoveryOptions): number {
+    const scoring = { weights: options.weights, idf: options.idf };
+    const ab = scoreSpace(a, { spaceID: '', tabs: [b] }, scoring);
+    const ba = scoreSpace(b, { spaceID: '', tabs: [a] }, scoring);
+    return Math.max((ab.combined + ba.combined) / 2, (ab.tfidf + ba.tfidf) / 2);
+}
+
+/** Average-linkage clustering; returns groups of indices into `tabs`, biggest first. */
+export function clusterTabs(tabs: DiscoveryTab[], options: DiscoveryOptions): number[][] {
+    const n = tabs.length;
+    const similarity: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            similarity[i][j] = similarity[j][i] = pairSimilarity(tabs[i].features, tabs[j].features, options);
+        }
+    }
+
+    // Cluster i lives at slot i until merged away; similarity[i][j] is the average
+    // pairwise similarity between the members of clusters i and j (Lance–Williams update)
+    const clusters: (number[] | null)[] = tabs.map((_, i) => [i]);
+    for (;;) {
+        let best = -1;
+        let bestI = -1;
+        let bestJ = -1;
+        for (let i = 0; i < n; i++) {
+            if (!clusters[i]) continue;
+            for (let j = i + 1; j < n; j++) {
+                if (!clusters[j] || similarity[i][j] <= best) continue;
+                best = similarity[i][j];
+                bestI = i;
+                bestJ = j;
+            }
+        }
+        if (bestI === -1 || best < options.threshold || best <= 0) break;
+
+        const sizeI = clusters[bestI]!.length;
+        const sizeJ = clusters[bestJ]!.length;
+        for (let k = 0; k < n; k++) {
+            if (!clusters[k] || k === bestI || k === bestJ) continue;
+            const merged = (sizeI * similarity[bestI][k] + sizeJ * similarity[bestJ][k]) / (sizeI + sizeJ);
+            similarity[bestI][k] = similarity[k][bestI] = merged;
+        }
+        clusters[bestI] = [...clusters[bestI]!, ...clusters[bestJ]!];
+        clusters[bestJ] = null;
+    }
+
+    return clusters
+        .filter((cluster): cluster is number[] => !!cluster && cluster.length >= MIN_CLUSTER_SIZE)
+        .sort((a, b) => b.length - a.length);
+}
+
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// Values that enough of the cluster shares, most common first
+function supported(values: string[][], size: number): [value: string, count: number][] {
+    const counts = new Map<string, number>();
+    for (const list of values) {
+        for (const value of new Set(list)) counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return [...counts]
+        .filter(([, count]) => count >= Math.max(MIN_CLUSTER_SIZE, size * MIN_NAME_SUPPORT))
+        .sort((a, b) => b[1] - a[1]);
+}
+
+function entityName(members: DiscoveryTab[]): string | null {
+    const shared = supported(members.map(tab => tab.features.entities), members.length);
+    for (const kind of NAMEABLE_ENTITY_KINDS) {
+        const match = shared.find(([entity]) => entity.startsWith(`${kind}:`));
+        if (!match) continue;
+        // "github:repo:org-a/api" → "org-a/api"
+        return match[0].slice(kind.length + 1) || null;
+    }
+    return null;
+}
+
+// Shared title keywords ranked by how telling they are, spelled the way titles spell them
+// (stored keywords are stems — "kubernet" — which make poor names)
+function sharedKeywords(members: DiscoveryTab[], options: DiscoveryOptions): string[] {
+    const spellings = new Map<string, Map<string, number>>();
+    const keywordsPerTab = members.map(tab => {
+        const keywords: string[] = [];
+        // Stored keywords have the site's title boilerplate ("- GitHub") stripped; match against them
+        const stored = new Set(tab.features.keywords);
+        for (const token of tokenizeTitle(tab.title)) {
+            const [keyword] = normalizeKeywords([token], options.synonyms);
+            if (!keyword || !stored.has(keyword)) continue;
+            keywords.push(keyword);
+            const forms = spellings.get(keyword) ?? new Map<string, number>();
+            forms.set(token, (forms.get(token) ?? 0) + 1);
+            spellings.set(keyword, forms);
+        }
+        return keywords;
+    });
+
+    const idf = options.idf ?? (() => 1);
+    return supported(keywordsPerTab, members.length)
+        .sort((a, b) => b[1] * idf(b[0]) - a[1] * idf(a[0]))
+        .map(([keyword]) => {
+            const forms = [...(spellings.get(keyword) ?? [])].sort((a, b) => b[1] - a[1]);
+            return forms[0]?.[0] ?? keyword;
+        });
+}
+
+function siteName(members: DiscoveryTab[]): string | null {
+    const [top] = supported(members.map(tab => (tab.features.domain ? [tab.features.domain] : [])), members.length);
+    // "github.com" → "Github"; "bbc.co.uk" → "Bbc"
+    return top ? capitalize(top[0].split('.')[0]) : null;
+}
+
+function pickIcon(terms: string[]): string {
+    const hints = getIconHints();
+    for (const term of terms) {
+        const icon = hints.get(stem(term.toLowerCase()));
+        if (icon) return icon;
+    }
+    return DEFAULT_ICON;
+}
+
+function uniqueTerms(terms: (string | null)[]): string[] {
+    const seen = new Set<string>();
+    return terms.filter((term): term is string => {
+        if (!term || seen.has(term.toLowerCase())) return false;
+        seen.add(term.toLowerCase());
+        return true;
+    });
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+    let candidate = name;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${name} ${n}`;
+    taken.add(candidate.toLowerCase());
+    return candidate;
+}
+
+/** Cluster the given tabs and describe each cluster as a proposed space. */
+export function discoverSpaces(tabs: DiscoveryTab[], options: DiscoveryOptions): SpaceProposal[] {
+    const takenNames = new Set(options.usedNames.map(name => name.toLowerCase()));
+    const usedColors = new Set(options.usedColors.map(color => color.toLowerCase()));
+    const freeColors = options.palette.filter(color => !usedColors.has(color.toLowerCase()));
+    const colors = freeColors.length > 0 ? freeColors : options.palette;
+
+    return clusterTabs(tabs, options)
+        .slice(0, MAX_PROPOSALS)
+        .map((cluster, index) => {
+            const members = cluster.map(i => tabs[i]);
+            const keywords = sharedKeywords(members, options);
+            const entity = entityName(members);
+            const site = siteName(members);
+
+            const name = entity
+                ?? (keywords.length > 0 ? keywords.slice(0, 2).map(capitalize).join(' & ') : null)
+                ?? site
+                ?? `Group ${index + 1}`;
+            const domains = members.map(tab => tab.features.domain.split('.')[0]).filter(Boolean);
+
+            return {
+                name: uniqueName(name, takenNames),
+                color: colors[index % colors.length],
+                icon: pickIcon([...keywords, ...domains]),
+                tabIds: members.map(tab => tab.tabId),
+                sharedTerms: uniqueTerms([entity, ...keywords, site]).slice(0, 4),
+            };
+        });
+}
@@ -0,0 +1,116 @@
+// Explicit, user-authored space rules (Space.rules).
+// Evaluated before the similarity scorer — a matching rule always wins.
+
+import { extractDomainParts, type TabAnalysis } from './tab-analyzer';
+import type { Space, SpaceRule } from '@/types';
+
+export type RuleInput = Pick<TabAnalysis, 'domain' | 'subdomains' | 'rawTitle' | 'rawUrl'>;
+
+export interface RuleMatch {
+    spaceID: string;
+    rule: SpaceRule;
+}
+
+// Compiled regex cache — rules are evaluated on every navigation, patterns rarely change.
+// `null` marks a pattern that failed to compile so we don't retry it every time.
+const regexCache = new Map<string, RegExp | null>();
+
+function compileRegex(pattern: string): RegExp | null {
+    if (regexCache.has(pattern)) return regexCache.get(pattern)!;
+    let compiled: RegExp | null = null;
+    try {
+        compiled = new RegExp(pattern, 'i');
+    } catch {
+        console.warn(`[SpaceRules] invalid regex ignored: ${pattern}`);
+    }
+    regexCache.set(pattern, compiled);
+    return compiled;
+}
+
+// "github.com" matches github.com and any subdomain of it; "*.github.com" is accepted too.
+function matchesDomain(pattern: string, input: RuleInput): boolean {
+    const wanted = pattern.trim().toLowerCase().replace(/^\*?\./, '').replace(/^www\./, '');
+    if (!wanted || !input.domain) return false;
+    const host = [...input.subdomains, input.domain].join('.');
+    return host === wanted || host.endsWith(`.${wanted}`);
+}
+
+// Case-insensitive substring match against the title and the URL.
+function matchesKeyword(pattern: string, input: RuleInput): boolean {
+    const wanted = pattern.trim().toLowerCase();
+    if (!wanted) return false;
+    return input.rawTitle.toLowerCase().includes(wanted) || input.rawUrl.toLowerCase().includes(wanted);
+}
+
+// Tested against the full URL, case-insensitive.
+function matchesRegex(pattern: string, input: RuleInput): boolean {
+    if (!pattern) return false;
+    const regex = compileRegex(pattern);
+    return regex ? regex.test(input.rawUrl) : false;
+}
+
+/** Returns a user-facing error for a rule that can never match, or null if it's fine. */
+export function validateRule(rule: SpaceRule): string | null {
+    if (!rule.pattern.trim()) return 'Pattern is empty';
+    if (rule.type === 'regex') {
+        try {
+            new RegExp(rule.pattern, 'i');
+        } catch (error) {
+            return error instanceof SyntaxError ? error.message : 'Invalid regular expression';
+        }
+    }
+    if (!Number.isFinite(rule.priority)) return 'Priority must be a number';
+    return null;
+}
+
+/**
+ * Cheap RuleInput for UI previews — skips the full analyzeTab pass (and its logging).
+ */
+export function ruleInputFromTab(url: string, title: string): RuleInput {
+    let hostname = '';
+    try {
+        hostname = new URL(url).hostname;
+    } catch {
+        // not a parseable URL — domain rules simply won't match
+    }
+    const { domain, subdomains } = hostname ? extractDomainParts(hostname) : { domain: '', subdomains: [] };
+    return { domain, subdomains, rawTitle: title, rawUrl: url };
+}
+
+export function isSameRule(a?: SpaceRule, b?: SpaceRule): boolean {
+    if (!a || !b) return a === b;
+    return a.type === b.type && a.pattern === b.pattern && a.priority === b.priority;
+}
+
+export function ruleMatches(rule: SpaceRule, input: RuleInput): boolean {
+    switch (rule.type) {
+        case 'domain': return matchesDomain(rule.pattern, input);
+        case 'keyword': return matchesKeyword(rule.pattern, input);
+        case 'regex': return matchesRegex(rule.pattern, input);
+        default: return false;
+    }
+}
+
+/**
+ * Returns the winning rule across all spaces, or null if nothing matches.
+ * Ordering: higher `priority` first, then the space's position in the list,
+ * then the rule's position within its space — so ties are always deterministic.
+ * Spaces with `autoAssignDisabled` are skipped.
+ */
+export function matchSpaceRules(input: RuleInput, spaces: Space[]): RuleMatch | null {
+    let best: RuleMatch | null = null;
+
+    // Spaces and rules are walked in order, so a strict ">" keeps the earliest
+    // rule on equal priority.
+    for (const space of spaces) {
+        if (space.autoAssignDisabled) continue;
+        for (const rule of space.rules ?? []) {
+            if (best && rule.priority <= best.rule.priority) continue;
+            if (ruleMatches(rule, input)) {
+                best = { spaceID: space.id, rule };
+            }
+        }
+    }
+
+    return best;
+}
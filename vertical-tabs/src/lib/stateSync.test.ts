@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+    documentToState,
+    fitToQuota,
+    mergeDocuments,
+    splitIntoChunks,
+    stampLocalState,
+    type SyncDocument,
+} from './stateSync';
+import type { SavedItem, SyncedState } from '@/types';
+
+function emptyDocument(): SyncDocument {
+    return { version: 1, spaces: {}, settings: {}, savedItems: {} };
+}
+
+function state(overrides: Partial<SyncedState['spaces'][number]> = {}): SyncedState {
+    return {
+        spaces: [{ id: 'work', name: 'Work', color: '#4a9eff', rules: [], ...overrides }],
+        settings: {},
+        savedItems: [],
+    };
+}
+
+function savedItem(n: number): SavedItem {
+    return { id: `item_${n}`, url: `https://example.test/articles/${n}`, title: `Article number ${n}`, savedAt: n };
+}
+
+describe('mergeDocuments', () => {
+    const base = stampLocalState(emptyDocument(), state(), { at: 1, by: 'a' });
+
+    it('keeps both sides when they changed different fields', () => {
+        const local = stampLocalState(base, state({ name: 'Job' }), { at: 2, by: 'a' });
+        const remote = stampLocalState(base, state({ color: '#ff0000' }), { at: 3, by: 'b' });
+
+        const { merged, conflicts } = mergeDocuments(local, remote, base);
+        expect(conflicts).toBe(0);
+        expect(documentToState(merged).spaces[0]).toMatchObject({ name: 'Job', color: '#ff0000' });
+    });
+
+    it('keeps the later edit when both sides changed the same field', () => {
+        const local = stampLocalState(base, state({ name: 'Job' }), { at: 5, by: 'a' });
+        const remote = stampLocalState(base, state({ name: 'Office' }), { at: 3, by: 'b' });
+
+        const { merged, conflicts } = mergeDocuments(local, remote, base);
+        expect(conflicts).toBe(1);
+        expect(documentToState(merged).spaces[0].name).toBe('Job');
+    });
+
+    it('combines conflicting rule lists', () => {
+        const local = stampLocalState(base, state({ rules: [{ type: 'domain', pattern: 'a.test', priority: 0 }] }), { at: 2, by: 'a' });
+        const remote = stampLocalState(base, state({ rules: [{ type: 'domain', pattern: 'b.test', priority: 0 }] }), { at: 3, by: 'b' });
+
+        const { merged } = mergeDocuments(local, remote, base);
+        expect(documentToState(merged).spaces[0].rules.map(rule => rule.pattern)).toEqual(['b.test', 'a.test']);
+    });
+
+    it('brings a deleted space back when it was edited later elsewhere', () => {
+        const local = stampLocalState(base, { ...state(), spaces: [] }, { at: 2, by: 'a' });
+        const remote = stampLocalState(base, state({ name: 'Job' }), { at: 3, by: 'b' });
+
+        const { merged } = mergeDocuments(local, remote, base);
+        expect(documentToState(merged).spaces.map(space => space.name)).toEqual(['Job']);
+    });
+
+    it('keeps a deletion newer than the other side\'s edit', () => {
+        const local = stampLocalState(base, { ...state(), spaces: [] }, { at: 4, by: 'a' });
+        const remote = stampLocalState(base, state({ name: 'Job' }), { at: 3, by: 'b' });
+
+        const { merged } = mergeDocuments(local, remote, base);
+        expect(documentToState(merged).spaces).toEqual([]);
+    });
+});
+
+describe('splitIntoChunks', () => {
+    const encodedBytes = (chunk: string) => new TextEncoder().encode(JSON.stringify(chunk)).length;
+
+    it('splits into chunks that fit an item and join back to the text', () => {
+        const text = JSON.stringify({ title: 'Ünïcödé "quoted" \\ text\n'.repeat(2000) });
+        const chunks = splitIntoChunks(text);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.join('')).toBe(text);
+        for (const chunk of chunks) expect(encodedBytes(chunk)).toBeLessThanOrEqual(8000);
+    });
+
+    it('never cuts an emoji in half', () => {
+        const text = '😀'.repeat(5000);
+        const chunks = splitIntoChunks(text);
+
+        expect(chunks.join('')).toBe(text);
+        for (const chunk of chunks) {
+            // A lone surrogate comes back from the encoder as U+FFFD
+            expect(new TextDecoder().decode(new TextEncoder().encode(chunk))).toBe(chunk);
+            expect(encodedBytes(chunk)).toBeLessThanOrEqual(8000);
+        }
+    });
+
+    it('returns nothing for an empty text', () => {
+        expect(splitIntoChunks('')).toEqual([]);
+    });
+});
+
+describe('fitToQuota', () => {
+    it('leaves a document that fits alone', () => {
+        const doc = stampLocalState(emptyDocument(), { ...state(), savedItems: [savedItem(1)] }, { at: 1, by: 'a' });
+        expect(fitToQuota(doc)).toBe(0);
+        expect(Object.keys(doc.savedItems)).toHaveLength(1);
+    });
+
+    it('leaves out the oldest saved items until the document fits', () => {
+        const items = Array.from({ length: 1500 }, (_, n) => savedItem(n));
+        const doc = stampLocalState(emptyDocument(), { ...state(), savedItems: items }, { at: 1, by: 'a' });
+
+        const removed = fitToQuota(doc);
+        expect(removed).toBeGreaterThan(0);
+        expect(Object.keys(doc.savedItems)).toHaveLength(items.length - removed);
+        expect(doc.savedItems[items[0].url]).toBeUndefined();
+        expect(doc.savedItems[items[items.length - 1].url]).toBeDefined();
+        expect(JSON.stringify(doc).length).toBeLessThan(102400);
+    });
+
+    it('throws when spaces and settings alone are too large', () => {
+        const doc = stampLocalState(emptyDocument(), state({ name: 'x'.repeat(120000) }), { at: 1, by: 'a' });
+        expect(() => fitToQuota(doc)).toThrow(/allows for sync/);
+    });
+});
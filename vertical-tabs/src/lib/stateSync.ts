@@ -0,0 +1,496 @@
+// Mirror spaces (name, color, icon, rules), settings and saved items to chrome.storage.sync so
+// they follow the user across devices. Every synced field carries the time and device of its last
+// change, and merging keeps the newest value per field — two machines editing different parts of
+// the same space both keep their edit. Tab ids, archives and tab metadata stay local.
+// The document is stored as JSON split into chunks that fit sync's per-item quota.
+
+import { isSameRule } from './spaceRules';
+import type { StateManager, StateSection } from '@/lib/storage';
+import type { SavedItem, SpaceRule, SyncedState, SyncStatus, UserSettings } from '@/types';
+
+const SYNC_VERSION = 1;
+
+// chrome.storage.sync keys
+const META_KEY = 'sync_meta';
+const CHUNK_PREFIX = 'sync_chunk_';
+
+// chrome.storage.local keys
+const DEVICE_KEY = 'sync_device_id';
+const SHADOW_KEY = 'sync_shadow';
+const STATUS_KEY = 'sync_status';
+
+// chrome.storage.sync.QUOTA_BYTES_PER_ITEM counts the key and the JSON-encoded value;
+// leave room for the key and some slack
+const QUOTA_BYTES_PER_ITEM = 8192;
+const MAX_CHUNK_BYTES = QUOTA_BYTES_PER_ITEM - 192;
+
+// chrome.storage.sync.QUOTA_BYTES covers every item together; keep room for the meta item
+const QUOTA_BYTES = 102400;
+const MAX_DOCUMENT_BYTES = QUOTA_BYTES - 512;
+
+// What the synced document is built from — tab moves and learned examples don't touch it
+const SYNCED_SECTIONS: StateSection[] = ['spaces', 'settings', 'savedItems'];
+
+const PUSH_DEBOUNCE_MS = 2000;
+
+// Deletions are remembered this long so a device that was offline still hears about them
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Host permissions are granted per browser, and sync itself is switched on per device
+const LOCAL_ONLY_SETTINGS: (keyof UserSettings)[] = ['pageSignalsEnabled', 'syncEnabled'];
+
+const SPACE_FIELDS = ['name', 'color', 'icon', 'rules', 'autoAssignDisabled'] as const;
+type SpaceField = typeof SPACE_FIELDS[number];
+
+/** When, and on which device, something last changed */
+interface Stamp {
+    at: number;
+    by: string;
+}
+
+interface Field extends Stamp {
+    value: unknown;
+}
+
+interface SyncedSpace {
+    fields: Partial<Record<SpaceField, Field>>;
+    /** Fields are kept after deletion — an edit made later elsewhere brings the space back */
+    deleted?: Stamp;
+}
+
+interface SyncedSavedItem extends Stamp {
+    /** null once removed */
+    item: SavedItem | null;
+}
+
+export interface SyncDocument {
+    version: number;
+    spaces: Record<string, SyncedSpace>;
+    settings: Record<string, Field>;
+    /** Keyed by URL — saved item ids aren't stable across devices */
+    savedItems: Record<string, SyncedSavedItem>;
+}
+
+interface SyncMeta extends Stamp {
+    version: number;
+    chunks: number;
+}
+
+function emptyDocument(): SyncDocument {
+    return { version: SYNC_VERSION, spaces: {}, settings: {}, savedItems: {} };
+}
+
+// JSON with object keys sorted, so equal documents serialize the same whatever order they were
+// built in — otherwise two devices would keep rewriting each other's identical merges
+function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, nested: unknown) => {
+        if (typeof nested !== 'object' || nested === null || Array.isArray(nested)) return nested;
+        return Object.fromEntries(Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    });
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return stableStringify(a) === stableStringify(b);
+}
+
+function newer(a: Stamp, b: Stamp): boolean {
+    return a.at > b.at || (a.at === b.at && a.by > b.by);
+}
+
+function sameStamp(a: Stamp | undefined, b: Stamp | undefined): boolean {
+    return !!a && !!b && a.at === b.at && a.by === b.by;
+}
+
+function isLive(space: SyncedSpace): boolean {
+    const { deleted } = space;
+    return !deleted || Object.values(space.fields).some(field => field && newer(field, deleted));
+}
+
+// ============================================================
+// Stamping and merging
+// ============================================================
+
+/** Build a document from local state: unchanged fields keep their stamp from `base`, changed ones get `stamp`. */
+export function stampLocalState(base: SyncDocument, state: SyncedState, stamp: Stamp): SyncDocument {
+    const doc = emptyDocument();
+
+    for (const space of state.spaces) {
+        const previous = base.spaces[space.id];
+        const fields: SyncedSpace['fields'] = {};
+        for (const field of SPACE_FIELDS) {
+            // undefined doesn't survive JSON — store it as null so it compares equal next time
+            const value = space[field] ?? null;
+            const old = previous?.fields[field];
+            fields[field] = old && previous && isLive(previous) && sameValue(old.value, value) ? old : { value, ...stamp };
+        }
+        doc.spaces[space.id] = { fields };
+    }
+    for (const [id, previous] of Object.entries(base.spaces)) {
+        if (doc.spaces[id]) continue;
+        doc.spaces[id] = isLive(previous) ? { fields: previous.fields, deleted: stamp } : previous;
+    }
+
+    for (const [key, value] of Object.entries(state.settings)) {
+        const old = base.settings[key];
+        doc.settings[key] = old && sameValue(old.value, value) ? old : { value, ...stamp };
+    }
+
+    for (const item of state.savedItems) {
+        const old = base.savedItems[item.url];
+        doc.savedItems[item.url] = old?.item && sameValue(old.item, item) ? old : { item, ...stamp };
+    }
+    for (const [url, previous] of Object.entries(base.savedItems)) {
+        if (doc.savedItems[url]) continue;
+        doc.savedItems[url] = previous.item ? { item: null, ...stamp } : previous;
+    }
+
+    return doc;
+}
+
+function unionRules(winner: unknown, loser: unknown): SpaceRule[] {
+    const kept = Array.isArray(winner) ? (winner as SpaceRule[]) : [];
+    const other = Array.isArray(loser) ? (loser as SpaceRule[]) : [];
+    return [...kept, ...other.filter(rule => !kept.some(r => isSameRule(r, rule)))];
+}
+
+/**
+ * Merge two documents, keeping the later change of every field. A conflict is a field both
+ * sides changed since `base` to different values; conflicting rule lists are combined rather
+ * than one replacing the other, so neither machine's new rules are lost.
+ */
+export function mergeDocuments(
+    local: SyncDocument,
+    remote: SyncDocument,
+    base: SyncDocument,
+): { merged: SyncDocument; conflicts: number } {
+    const merged = emptyDocument();
+    let conflicts = 0;
+
+    const pick = <T extends Stamp>(a: T | undefined, b: T | undefined): T | undefined =>
+        !a ? b : !b ? a : newer(b, a) ? b : a;
+    const conflicting = (a: Field | undefined, b: Field | undefined, baseField: Field | undefined) =>
+        !!a && !!b && !sameStamp(a, baseField) && !sameStamp(b, baseField) && !sameValue(a.value, b.value);
+
+    for (const id of new Set([...Object.keys(local.spaces), ...Object.keys(remote.spaces)])) {
+        const a = local.spaces[id];
+        const b = remote.spaces[id];
+        if (!a || !b) {
+            merged.spaces[id] = a ?? b;
+            continue;
+        }
+        const fields: SyncedSpace['fields'] = {};
+        for (const field of SPACE_FIELDS) {
+            const winner = pick(a.fields[field], b.fields[field]);
+            if (!winner) continue;
+            if (conflicting(a.fields[field], b.fields[field], base.spaces[id]?.fields[field])) {
+                conflicts++;
+                if (field === 'rules') {
+                    const loser = winner === a.fields[field] ? b.fields[field] : a.fields[field];
+                    fields[field] = { ...winner, value: unionRules(winner.value, loser?.value) };
+                    continue;
+                }
+            }
+            fields[field] = winner;
+        }
+        const deleted = pick(a.deleted, b.deleted);
+        merged.spaces[id] = deleted ? { fields, deleted } : { fields };
+    }
+
+    for (const key of new Set([...Object.keys(local.settings), ...Object.keys(remote.settings)])) {
+        if (conflicting(local.settings[key], remote.settings[key], base.settings[key])) conflicts++;
+        merged.settings[key] = pick(local.settings[key], remote.settings[key])!;
+    }
+
+    for (const url of new Set([...Object.keys(local.savedItems), ...Object.keys(remote.savedItems)])) {
+        merged.savedItems[url] = pick(local.savedItems[url], remote.savedItems[url])!;
+    }
+
+    return { merged, conflicts };
+}
+
+/** Forget deletions every device has had a month to hear about. */
+export function pruneTombstones(doc: SyncDocument, now: number): void {
+    const cutoff = now - TOMBSTONE_TTL_MS;
+    for (const [id, space] of Object.entries(doc.spaces)) {
+        if (!isLive(space) && space.deleted!.at < cutoff) delete doc.spaces[id];
+    }
+    for (const [url, entry] of Object.entries(doc.savedItems)) {
+        if (!entry.item && entry.at < cutoff) delete doc.savedItems[url];
+    }
+}
+
+/** The state a merged document describes. */
+export function documentToState(doc: SyncDocument): SyncedState {
+    const spaces = Object.entries(doc.spaces)
+        .filter(([, space]) => isLive(space))
+        .map(([id, space]) => {
+            const value = (field: SpaceField) => space.fields[field]?.value ?? undefined;
+            return {
+                id,
+                name: (value('name') as string | undefined) ?? 'Space',
+                color: (value('color') as string | undefined) ?? '#4a9eff',
+                icon: value('icon') as string | undefined,
+                rules: (value('rules') as SpaceRule[] | undefined) ?? [],
+                autoAssignDisabled: value('autoAssignDisabled') as boolean | undefined,
+            };
+        });
+
+    const settings: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(doc.settings)) {
+        if (!LOCAL_ONLY_SETTINGS.includes(key as keyof UserSettings)) settings[key] = field.value;
+    }
+
+    const savedItems = Object.values(doc.savedItems)
+        .map(entry => entry.item)
+        .filter((item): item is SavedItem => !!item)
+        .sort((a, b) => b.savedAt - a.savedAt);
+
+    return { spaces, settings: settings as Partial<UserSettings>, savedItems };
+}
+
+// ============================================================
+// Chunked storage
+// ============================================================
+
+function byteLength(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+function isHighSurrogate(code: number): boolean {
+    return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * Split so every chunk, once JSON-encoded (quotes, escapes, multi-byte characters), fits an item.
+ * Cuts fall between code points — half an emoji on each side would not survive storage.
+ */
+export function splitIntoChunks(text: string): string[] {
+    const chunks: string[] = [];
+    let start = 0;
+    while (start < text.length) {
+        let end = Math.min(text.length, start + MAX_CHUNK_BYTES);
+        while (byteLength(JSON.stringify(text.slice(start, end))) > MAX_CHUNK_BYTES) {
+            end = start + Math.floor((end - start) * 0.9);
+        }
+        if (end < text.length && end - start > 1 && isHighSurrogate(text.charCodeAt(end - 1))) end--;
+        chunks.push(text.slice(start, end));
+        start = end;
+    }
+    return chunks;
+}
+
+// What the document takes of the sync quota once chunked: each item's key and JSON-encoded value
+function storedBytes(doc: SyncDocument): number {
+    return splitIntoChunks(stableStringify(doc))
+        .reduce((total, chunk, i) => total + `${CHUNK_PREFIX}${i}`.length + byteLength(JSON.stringify(chunk)), 0);
+}
+
+/**
+ * Leave the oldest saved items out of the document until it fits sync's total quota — they stay
+ * on this device. Returns how many were left out; throws when spaces and settings alone don't fit.
+ */
+export function fitToQuota(doc: SyncDocument): number {
+    let excess = storedBytes(doc) - MAX_DOCUMENT_BYTES;
+    if (excess <= 0) return 0;
+
+    const oldestFirst = Object.entries(doc.savedItems)
+        .filter(([, entry]) => entry.item)
+        .sort(([, a], [, b]) => a.item!.savedAt - b.item!.savedAt);
+    let removed = 0;
+    while (excess > 0 && removed < oldestFirst.length) {
+        // Drop about enough in one go, then measure again — escaping and chunking make this inexact
+        let freed = 0;
+        while (freed < excess && removed < oldestFirst.length) {
+            const [url, entry] = oldestFirst[removed++];
+            freed += byteLength(JSON.stringify(stableStringify({ [url]: entry })));
+            delete doc.savedItems[url];
+        }
+        excess = storedBytes(doc) - MAX_DOCUMENT_BYTES;
+    }
+    if (excess > 0) {
+        const needed = Math.ceil((MAX_DOCUMENT_BYTES + excess) / 1024);
+        throw new Error(`Spaces and settings need ${needed} KB, more than the ${QUOTA_BYTES / 1024} KB Chrome allows for sync`);
+    }
+    return removed;
+}
+
+/**
+ * Read the synced document: null when nothing was synced yet, 'unreadable' while another device
+ * is mid-write (its onChanged follows shortly) or when a newer version wrote it.
+ */
+async function readDocument(): Promise<SyncDocument | null | 'unreadable'> {
+    const stored = await chrome.storage.sync.get(null);
+    const meta = stored[META_KEY] as SyncMeta | undefined;
+    if (!meta) return null;
+    if (meta.version !== SYNC_VERSION) return 'unreadable';
+
+    const chunks: string[] = [];
+    for (let i = 0; i < meta.chunks; i++) {
+        const chunk = stored[`${CHUNK_PREFIX}${i}`];
+        if (typeof chunk !== 'string') return 'unreadable';
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(chunks.join('')) as SyncDocument;
+    } catch {
+        // Chunks from two different writes
+        return 'unreadable';
+    }
+}
+
+async function writeDocument(doc: SyncDocument, stamp: Stamp): Promise<void> {
+    const chunks = splitIntoChunks(stableStringify(doc));
+    const stored = await chrome.storage.sync.get(null);
+
+    // Unchanged chunks are left alone; writes count against sync's per-minute quota
+    const updates: Record<string, unknown> = {};
+    chunks.forEach((chunk, i) => {
+        if (stored[`${CHUNK_PREFIX}${i}`] !== chunk) updates[`${CHUNK_PREFIX}${i}`] = chunk;
+    });
+    const meta: SyncMeta = { version: SYNC_VERSION, chunks: chunks.length, ...stamp };
+    await chrome.storage.sync.set({ ...updates, [META_KEY]: meta });
+
+    const leftover = Object.keys(stored).filter(key =>
+        key.startsWith(CHUNK_PREFIX) && Number(key.slice(CHUNK_PREFIX.length)) >= chunks.length);
+    if (leftover.length > 0) await chrome.storage.sync.remove(leftover);
+}
+
+// ============================================================
+// Sync engine
+// ============================================================
+
+export class StateSync {
+    private deviceId = '';
+    /** The last merged document — what both sides agreed on, the base for the next merge */
+    private shadow: SyncDocument | null = null;
+    private status: SyncStatus = { conflictsResolved: 0 };
+    private started = false;
+    private pushTimer: ReturnType<typeof setTimeout> | null = null;
+    private running: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly stateManager: StateManager,
+        /** Called with tabs moved to Home because their space was deleted on another device */
+        private readonly onTabsMoved: (tabIds: number[]) => void,
+    ) {}
+
+    async start(): Promise<void> {
+        if (this.started) return;
+        this.started = true;
+
+        const stored = await chrome.storage.local.get([DEVICE_KEY, SHADOW_KEY, STATUS_KEY]);
+        this.deviceId = (stored[DEVICE_KEY] as string | undefined) ?? crypto.randomUUID();
+        this.shadow = (stored[SHADOW_KEY] as SyncDocument | undefined) ?? null;
+        this.status = (stored[STATUS_KEY] as SyncStatus | undefined) ?? this.status;
+        if (!stored[DEVICE_KEY]) {
+            await chrome.storage.local.set({ [DEVICE_KEY]: this.deviceId });
+        }
+
+        this.stateManager.subscribe((sections) => {
+            if (sections.some(section => SYNCED_SECTIONS.includes(section))) this.schedule();
+        });
+
+        await this.sync();
+    }
+
+    getStatus(): SyncStatus {
+        return this.status;
+    }
+
+    /** chrome.storage.onChanged — registered by the service worker, delivered once started. */
+    onStorageChanged(changes: Record<string, chrome.storage.StorageChange>, area: string): void {
+        if (area === 'sync' && changes[META_KEY]) this.schedule(0);
+    }
+
+    /** Push a change still waiting out its debounce now, before the worker is suspended. */
+    flush(): Promise<void> {
+        if (!this.pushTimer) return this.running;
+        clearTimeout(this.pushTimer);
+        this.pushTimer = null;
+        return this.sync();
+    }
+
+    /** Merge local and synced state, then bring whichever side is behind up to date. */
+    sync(): Promise<void> {
+        this.running = this.running
+            .then(() => this.run())
+            .catch(err => console.warn('[StateSync] Could not save sync state:', err));
+        return this.running;
+    }
+
+    private schedule(delay = PUSH_DEBOUNCE_MS): void {
+        if (this.pushTimer) clearTimeout(this.pushTimer);
+        this.pushTimer = setTimeout(() => {
+            this.pushTimer = null;
+            void this.sync();
+        }, delay);
+    }
+
+    private localState(): SyncedState {
+        const settings: Record<string, unknown> = { ...this.stateManager.getSettings() };
+        for (const key of LOCAL_ONLY_SETTINGS) delete settings[key];
+        return {
+            spaces: this.stateManager.getSpaces().map(space => ({
+                id: space.id,
+                name: space.name,
+                color: space.color,
+                icon: space.icon,
+                rules: space.rules,
+                autoAssignDisabled: space.autoAssignDisabled,
+            })),
+            settings: settings as Partial<UserSettings>,
+            savedItems: this.stateManager.getSavedItems(),
+        };
+    }
+
+    private async run(): Promise<void> {
+        // A change from another device can arrive before start() has loaded; its own sync covers it
+        if (!this.deviceId || !this.stateManager.getSettings().syncEnabled) return;
+
+        const previousShadow = this.shadow;
+        try {
+            const remote = await readDocument();
+            if (remote === 'unreadable') return;
+
+            const base = this.shadow ?? emptyDocument();
+            // On a device's first sync its state is just defaults — let anything already synced win
+            const stamp = { at: this.shadow ? Date.now() : 0, by: this.deviceId };
+            const local = stampLocalState(base, this.localState(), stamp);
+            const { merged, conflicts } = mergeDocuments(local, remote ?? emptyDocument(), base);
+            pruneTombstones(merged, Date.now());
+
+            const movedTabIds = this.stateManager.applySyncedState(documentToState(merged));
+            if (movedTabIds.length > 0) this.onTabsMoved(movedTabIds);
+
+            // After applying, so saved items that don't fit are only left out of the synced copy
+            const savedItemsNotSynced = fitToQuota(merged);
+            if (savedItemsNotSynced > 0) {
+                console.warn('[StateSync] Sync storage is full, keeping', savedItemsNotSynced, 'saved items on this device only');
+            }
+
+            if (!remote || !sameValue(merged, remote)) {
+                await writeDocument(merged, { at: Date.now(), by: this.deviceId });
+            }
+
+            this.shadow = merged;
+            this.status = {
+                lastSyncedAt: Date.now(),
+                conflictsResolved: this.status.conflictsResolved + conflicts,
+                bytesInUse: await chrome.storage.sync.getBytesInUse(null),
+                savedItemsNotSynced: savedItemsNotSynced || undefined,
+            };
+            if (conflicts > 0) {
+                console.log('[StateSync] Resolved', conflicts, 'conflicting edits from another device');
+            }
+        } catch (err) {
+            // Usually a quota — too much to sync, or too many writes in a minute
+            console.warn('[StateSync] Sync failed:', err);
+            this.status = { ...this.status, error: err instanceof Error ? err.message : String(err) };
+        }
+
+        // The shadow is the whole document — only rewrite it when the merge changed something
+        const updates: Record<string, unknown> = { [STATUS_KEY]: this.status };
+        if (!previousShadow || !sameValue(this.shadow, previousShadow)) updates[SHADOW_KEY] = this.shadow;
+        await chrome.storage.local.set(updates);
+    }
+}
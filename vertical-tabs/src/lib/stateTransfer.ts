@@ -0,0 +1,171 @@
+// Export/import of a space setup as a versioned JSON file, so it can be backed up or shared.
+// Exports carry spaces with their rules and, optionally, settings, saved items and the URLs
+// open in each space. parseExport() checks an untrusted file field by field before anything
+// is applied; applying it is StateManager.importState().
+
+import { validateRule } from './spaceRules';
+import type { ExportBundle, ExportedSpace, SavedItem, Space, SpaceRule, UserSettings } from '@/types';
+
+export const EXPORT_FORMAT = 'vertical-tabs-export';
+
+// Bump when the file shape changes; parseExport() must keep reading every older version
+export const EXPORT_VERSION = 1;
+
+const RULE_TYPES: SpaceRule['type'][] = ['domain', 'keyword', 'regex'];
+
+// Settings are checked key by key; keys that fail are dropped rather than failing the import
+const SETTING_CHECKS: { [K in keyof UserSettings]: (value: unknown) => boolean } = {
+    theme: value => value === 'light' || value === 'dark' || value === 'system',
+    accentColor: value => typeof value === 'string',
+    compactMode: value => typeof value === 'boolean',
+    autoAssignSpaces: value => typeof value === 'boolean',
+    similarityThreshold: value => typeof value === 'number' && value >= 0 && value <= 1,
+    scoreWeights: value => isRecord(value) && Object.values(value).every(weight => typeof weight === 'number'),
+    autoAssignMode: value => value === 'move' || value === 'suggest',
+    keywordSynonyms: value => Array.isArray(value)
+        && value.every(group => Array.isArray(group) && group.every(term => typeof term === 'string')),
+    pageSignalsEnabled: value => typeof value === 'boolean',
+    staleTabThresholdDays: value => typeof value === 'number' && value > 0,
+    useNativeReadingList: value => typeof value === 'boolean',
+    syncEnabled: value => typeof value === 'boolean',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWebUrl(url: string): boolean {
+    return url.startsWith('http://') || url.startsWith('https://');
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') throw new Error(`${path} must be text`);
+    return value;
+}
+
+function requiredString(value: unknown, path: string): string {
+    if (typeof value !== 'string' || !value.trim()) throw new Error(`${path} is missing`);
+    return value;
+}
+
+function parseRule(raw: unknown, path: string): SpaceRule {
+    if (!isRecord(raw)) throw new Error(`${path} is not a rule`);
+    if (!RULE_TYPES.includes(raw.type as SpaceRule['type'])) {
+        throw new Error(`${path}.type must be one of ${RULE_TYPES.join(', ')}`);
+    }
+    const rule: SpaceRule = {
+        type: raw.type as SpaceRule['type'],
+        pattern: requiredString(raw.pattern, `${path}.pattern`),
+        priority: typeof raw.priority === 'number' ? raw.priority : 0,
+    };
+    const problem = validateRule(rule);
+    if (problem) throw new Error(`${path}: ${problem}`);
+    return rule;
+}
+
+function parseSpace(raw: unknown, path: string): ExportedSpace {
+    if (!isRecord(raw)) throw new Error(`${path} is not a space`);
+    if (raw.rules !== undefined && !Array.isArray(raw.rules)) throw new Error(`${path}.rules must be a list`);
+    if (raw.tabs !== undefined && !Array.isArray(raw.tabs)) throw new Error(`${path}.tabs must be a list`);
+
+    const tabs = (raw.tabs as unknown[] | undefined)
+        ?.filter(isRecord)
+        // Only ordinary pages are reopened — never javascript:, file: or internal URLs from a shared file
+        .filter(tab => typeof tab.url === 'string' && isWebUrl(tab.url))
+        .map(tab => ({ url: tab.url as string, title: typeof tab.title === 'string' ? tab.title : undefined }));
+
+    return {
+        id: requiredString(raw.id, `${path}.id`),
+        name: requiredString(raw.name, `${path}.name`).trim(),
+        color: requiredString(raw.color, `${path}.color`),
+        icon: optionalString(raw.icon, `${path}.icon`),
+        rules: ((raw.rules as unknown[] | undefined) ?? []).map((rule, i) => parseRule(rule, `${path}.rules[${i}]`)),
+        autoAssignDisabled: raw.autoAssignDisabled === true || undefined,
+        tabs,
+    };
+}
+
+function parseSettings(raw: unknown): Partial<UserSettings> {
+    if (!isRecord(raw)) throw new Error('settings must be an object');
+    const settings: Record<string, unknown> = {};
+    for (const [key, check] of Object.entries(SETTING_CHECKS)) {
+        if (key in raw && check(raw[key])) settings[key] = raw[key];
+    }
+    return settings as Partial<UserSettings>;
+}
+
+function parseSavedItem(raw: unknown, path: string): SavedItem {
+    if (!isRecord(raw)) throw new Error(`${path} is not a saved item`);
+    const url = requiredString(raw.url, `${path}.url`);
+    if (!isWebUrl(url)) throw new Error(`${path}.url must be a web address`);
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : url,
+        url,
+        title: typeof raw.title === 'string' && raw.title ? raw.title : url,
+        favIconUrl: optionalString(raw.favIconUrl, `${path}.favIconUrl`),
+        savedAt: typeof raw.savedAt === 'number' ? raw.savedAt : Date.now(),
+    };
+}
+
+/** Snapshot spaces (and optionally settings, saved items and open tabs per space) for export. */
+export function buildExport(
+    spaces: Space[],
+    options: {
+        settings?: UserSettings;
+        savedItems?: SavedItem[];
+        /** Open tabs by space id */
+        openTabs?: Map<string, chrome.tabs.Tab[]>;
+    } = {},
+): ExportBundle {
+    return {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: Date.now(),
+        spaces: spaces.map(space => ({
+            id: space.id,
+            name: space.name,
+            color: space.color,
+            icon: space.icon,
+            rules: space.rules,
+            autoAssignDisabled: space.autoAssignDisabled,
+            tabs: options.openTabs
+                ?.get(space.id)
+                ?.filter(tab => tab.url && isWebUrl(tab.url))
+                .map(tab => ({ url: tab.url!, title: tab.title })),
+        })),
+        settings: options.settings,
+        savedItems: options.savedItems,
+    };
+}
+
+/** Validate a parsed export file. Throws an Error saying what's wrong when it isn't usable. */
+export function parseExport(raw: unknown): ExportBundle {
+    if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+        throw new Error('This file is not a Vertical Tabs export');
+    }
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+        throw new Error('The export has no valid version');
+    }
+    if (raw.version > EXPORT_VERSION) {
+        throw new Error('The export was made by a newer version of Vertical Tabs — update the extension first');
+    }
+    if (!Array.isArray(raw.spaces)) throw new Error('spaces must be a list');
+    if (raw.savedItems !== undefined && !Array.isArray(raw.savedItems)) throw new Error('savedItems must be a list');
+
+    const spaces = raw.spaces.map((space, i) => parseSpace(space, `spaces[${i}]`));
+    const ids = new Set<string>();
+    for (const [i, space] of spaces.entries()) {
+        if (ids.has(space.id)) throw new Error(`spaces[${i}].id "${space.id}" is used twice`);
+        ids.add(space.id);
+    }
+
+    return {
+        format: EXPORT_FORMAT,
+        version: raw.version,
+        exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+        spaces,
+        settings: raw.settings === undefined ? undefined : parseSettings(raw.settings),
+        savedItems: (raw.savedItems as unknown[] | undefined)?.map((item, i) => parseSavedItem(item, `savedItems[${i}]`)),
+    };
+}
@@ -0,0 +1,87 @@
+// Per-language stop words for title keywords. Lists in a script of their own always apply; the
+// other Latin-script lists share too much with English vocabulary ("war", "die", "son") and only
+// apply to titles the tokenizer finds to be in that language.
+// Written with their accents; the tokenizer folds them the same way it folds tokens.
+
+export const STOP_WORDS_BY_LANGUAGE: Record<string, string[]> = {
+    en: [
+        'a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to',
+        'for', 'of', 'with', 'by', 'from', 'is', 'was', 'are', 'were',
+        'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
+        'it', 'its', 'this', 'that', 'these', 'those', 'i', 'you', 'he',
+        'she', 'we', 'they', 'my', 'your', 'his', 'her', 'our', 'their',
+        'what', 'which', 'who', 'how', 'when', 'where', 'why', 'not',
+        'no', 'so', 'if', 'then', 'than', 'as', 'up', 'out', 'about',
+        'into', 'through', 'during', 'before', 'after', 'above', 'below',
+        'between', 'each', 'more', 'most', 'other', 'some', 'such', 'also',
+        'just', 'new', 'can', 'will', 'would', 'could', 'should',
+    ],
+    de: [
+        'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'eines',
+        'einem', 'einen', 'und', 'oder', 'aber', 'ist', 'sind', 'war', 'wird',
+        'mit', 'von', 'zu', 'zum', 'zur', 'im', 'auf', 'für', 'nicht', 'auch',
+        'als', 'wie', 'bei', 'aus', 'nach', 'über', 'unter', 'sich', 'es', 'ich',
+        'sie', 'wir', 'ihr', 'du', 'dass', 'was', 'wer', 'noch', 'nur', 'vom',
+    ],
+    fr: [
+        'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'mais',
+        'est', 'sont', 'été', 'être', 'avec', 'pour', 'par', 'sur', 'dans', 'en',
+        'au', 'aux', 'ce', 'cette', 'ces', 'il', 'elle', 'ils', 'elles', 'nous',
+        'vous', 'je', 'tu', 'qui', 'que', 'quoi', 'ne', 'pas', 'plus', 'son',
+        'sa', 'ses', 'leur', 'leurs', 'comme', 'se', 'si',
+    ],
+    es: [
+        'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero',
+        'es', 'son', 'fue', 'ser', 'con', 'para', 'por', 'sobre', 'en', 'de',
+        'del', 'al', 'que', 'qué', 'como', 'cómo', 'este', 'esta', 'estos',
+        'estas', 'se', 'su', 'sus', 'lo', 'le', 'les', 'no', 'más', 'muy', 'sin',
+    ],
+    it: [
+        'il', 'lo', 'la', 'i', 'gli', 'le', 'un', 'uno', 'una', 'e', 'o', 'ma',
+        'è', 'sono', 'era', 'con', 'per', 'su', 'in', 'di', 'da', 'del', 'della',
+        'dei', 'delle', 'al', 'alla', 'che', 'come', 'questo', 'questa', 'non',
+        'più', 'si', 'suo', 'sua',
+    ],
+    pt: [
+        'o', 'a', 'os', 'as', 'um', 'uma', 'e', 'ou', 'mas', 'é', 'são', 'foi',
+        'com', 'para', 'por', 'em', 'no', 'na', 'nos', 'nas', 'de', 'do', 'da',
+        'dos', 'das', 'que', 'como', 'este', 'esta', 'não', 'mais', 'se', 'seu',
+        'sua',
+    ],
+    nl: [
+        'de', 'het', 'een', 'en', 'of', 'maar', 'is', 'zijn', 'was', 'met',
+        'voor', 'door', 'op', 'in', 'van', 'naar', 'aan', 'bij', 'uit', 'dat',
+        'die', 'dit', 'deze', 'niet', 'ook', 'als', 'hoe', 'wat', 'wie', 'er',
+    ],
+    ru: [
+        'и', 'в', 'во', 'не', 'что', 'на', 'с', 'со', 'как', 'а', 'то', 'все',
+        'она', 'так', 'его', 'но', 'да', 'ты', 'к', 'у', 'же', 'вы', 'за', 'бы',
+        'по', 'от', 'из', 'о', 'об', 'для', 'это', 'этот', 'эта', 'или', 'мы',
+        'он', 'они', 'я', 'при', 'до', 'без', 'над', 'под',
+    ],
+    uk: [
+        'і', 'й', 'та', 'в', 'у', 'на', 'з', 'із', 'до', 'від', 'для', 'що',
+        'як', 'це', 'не', 'але', 'або', 'по', 'за', 'про',
+    ],
+    el: [
+        'και', 'το', 'τα', 'της', 'του', 'των', 'τον', 'την', 'η', 'ο', 'οι',
+        'σε', 'στο', 'στη', 'στην', 'με', 'για', 'από', 'να', 'θα', 'είναι',
+        'ένα', 'μια', 'που', 'δεν',
+    ],
+    // CJK titles are split into bigrams; these catch the most common single-character
+    // and two-character function words that survive as tokens
+    ja: [
+        'の', 'に', 'は', 'を', 'た', 'が', 'で', 'て', 'と', 'し', 'れ', 'さ',
+        'ある', 'いる', 'する', 'から', 'まで', 'こと', 'これ', 'それ', 'ため',
+        'です', 'ます', 'など', 'なる',
+    ],
+    zh: [
+        '的', '了', '和', '是', '在', '我', '有', '就', '不', '人', '都', '一',
+        '也', '很', '到', '说', '要', '去', '你', '会', '着', '这', '那',
+        '我们', '你们', '他们', '什么', '没有', '一个', '可以', '这个',
+    ],
+    ko: [
+        '이', '그', '저', '것', '수', '등', '및', '의', '를', '을', '에', '은', '는',
+        '가', '와', '과', '도', '로', '으로', '에서', '하다', '있다',
+    ],
+};
@@ -1,4 +1,10 @@
-import type { Space, UserSettings, PersistedState, SavedItem } from '@/types';
+import type { Space, SpaceRule, UserSettings, PersistedState, SavedItem, TabMetadataEntry, LearnedExample, CleanupReport, CompactionReport, StorageDiagnostics, StorageUsage, StorageWriteStats, ExportBundle, ImportOptions, ImportResult, SyncedState } from '@/types';
+import { DEFAULT_SCORE_WEIGHTS, DEFAULT_SIMILARITY_THRESHOLD } from '@/lib/similarityScorer';
+import { MAX_LEARNED_EXAMPLES, isExampleLive } from '@/lib/learnedProfiles';
+import { DEFAULT_KEYWORD_SYNONYMS } from '@/lib/keywordNormalizer';
+import { isSameRule } from '@/lib/spaceRules';
+import { loadMigrationBackup, runMigrations, type Migration, type StorageData } from '@/lib/migrations';
+import { MIGRATION_BACKUP_RETENTION_MS, capSavedItems, compactTabEntry, isLongClosed } from '@/lib/storageCompaction';
 
 // ============================================
 // Storage Keys
@@ -8,13 +14,21 @@ const STORAGE_KEYS = {
   SCHEMA_VERSION: 'schema_version',
   SETTINGS: 'user_settings',
   SPACES: 'spaces',
+  // Before schema version 3 all tab metadata lived under this one key
   TAB_METADATA: 'tab_metadata',
+  TAB_METADATA_PREFIX: 'tab_meta_',
   SAVED_ITEMS: 'saved_items',
+  LEARNED_EXAMPLES: 'learned_examples',
+  LAST_CLEANUP: 'last_cleanup',
+  LAST_COMPACTION: 'last_compaction',
+  MIGRATION_BACKUP: 'migration_backup',
 } as const;
-
-const CURRENT_SCHEMA_VERSION = 2;
 const DEFAULT_SPACE_ID = 'default';
 
+function tabMetadataKey(tabId: number): string {
+  return `${STORAGE_KEYS.TAB_METADATA_PREFIX}${tabId}`;
+}
+
 // ============================================
 // Default Values
 // ============================================
@@ -23,9 +37,14 @@ const DEFAULT_SETTINGS: UserSettings = {
   accentColor: '#4a9eff',
   compactMode: false,
   autoAssignSpaces: true,
-  similarityThreshold: 0.45,
+  similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD,
+  scoreWeights: DEFAULT_SCORE_WEIGHTS,
+  autoAssignMode: 'move',
+  keywordSynonyms: DEFAULT_KEYWORD_SYNONYMS,
+  pageSignalsEnabled: false,
   staleTabThresholdDays: 7,
   useNativeReadingList: false,
+  syncEnabled: true,
 };
 
 const DEFAULT_SPACE: Space = {
@@ -48,6 +67,7 @@ function normalizeSpaces(spaces?: Space[]): Space[] {
     tabIds: Array.isArray(space.tabIds) ? space.tabIds : [],
     rules: Array.isArray(space.rules) ? space.rules : [],
     autoAssignDisabled: space.autoAssignDisabled,
+    archive: space.archive,
     createdAt: typeof space.createdAt === 'number' ? space.createdAt : now,
     lastAccessedAt:
       typeof space.lastAccessedAt === 'number'
@@ -63,30 +83,106 @@ function normalizeSpaces(spaces?: Space[]): Space[] {
   return normalized;
 }
 
-async function getSchemaVersion(): Promise<number> {
-  const result = await chrome.storage.local.get(STORAGE_KEYS.SCHEMA_VERSION);
-  const stored = result[STORAGE_KEYS.SCHEMA_VERSION];
-  return typeof stored === 'number' ? stored : 1;
-}
+// ============================================
+// Migrations
+// ============================================
 
-async function setSchemaVersion(version: number): Promise<void> {
-  await chrome.storage.local.set({ [STORAGE_KEYS.SCHEMA_VERSION]: version });
+// Ordered schema steps; add new ones at the end and never edit a released step.
+// Version 1 is the original, unversioned layout.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Normalize spaces and make sure Home exists',
+    up: data => ({
+      ...data,
+      [STORAGE_KEYS.SPACES]: normalizeSpaces(data[STORAGE_KEYS.SPACES] as Space[] | undefined),
+    }),
+    // Version 1 reads normalized spaces just fine
+    down: data => data,
+  },
+  {
+    version: 3,
+    description: 'Split tab metadata into one key per tab',
+    up: data => {
+      const { [STORAGE_KEYS.TAB_METADATA]: metadata, ...rest } = data;
+      const shards = Object.entries(isRecord(metadata) ? metadata : {})
+        .map(([tabId, entry]) => [tabMetadataKey(Number(tabId)), entry]);
+      // Shards written after an earlier failed attempt are newer than the old map
+      return { ...Object.fromEntries(shards), ...rest };
+    },
+    down: data => {
+      const rest: StorageData = {};
+      const metadata: StorageData = {};
+      for (const [key, value] of Object.entries(data)) {
+        if (key.startsWith(STORAGE_KEYS.TAB_METADATA_PREFIX)) {
+          metadata[key.slice(STORAGE_KEYS.TAB_METADATA_PREFIX.length)] = value;
+        } else {
+          rest[key] = value;
+        }
+      }
+      return { ...rest, [STORAGE_KEYS.TAB_METADATA]: metadata };
+    },
+  },
+];
+
+const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// The keys that make up PersistedState
+const PERSISTED_KEYS = [
+  STORAGE_KEYS.SETTINGS,
+  STORAGE_KEYS.SPACES,
+  STORAGE_KEYS.TAB_METADATA,
+  STORAGE_KEYS.SAVED_ITEMS,
+  STORAGE_KEYS.LEARNED_EXAMPLES,
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-async function migrateStorageIfNeeded(): Promise<void> {
-  const currentVersion = await getSchemaVersion();
-  if (currentVersion >= CURRENT_SCHEMA_VERSION) return;
-
-  let nextVersion = currentVersion;
+// Shape check of migrated data before it replaces what's stored; returns what's wrong, or null
+function validatePersistedState(data: StorageData): string | null {
+  const spaces = data[STORAGE_KEYS.SPACES];
+  if (!Array.isArray(spaces)) return 'spaces is not a list';
+  for (const [index, space] of spaces.entries()) {
+    if (!isRecord(space) || typeof space.id !== 'string' || typeof space.name !== 'string') {
+      return `space ${index} has no id or name`;
+    }
+    if (!Array.isArray(space.tabIds) || !Array.isArray(space.rules)) {
+      return `space ${space.id} is missing tabIds or rules`;
+    }
+  }
+  if (!spaces.some(space => space.id === DEFAULT_SPACE_ID)) return 'Home space is missing';
 
-  if (nextVersion < 2) {
-    const result = await chrome.storage.local.get(STORAGE_KEYS.SPACES);
-    const spaces = normalizeSpaces(result[STORAGE_KEYS.SPACES] as Space[] | undefined);
-    await chrome.storage.local.set({ [STORAGE_KEYS.SPACES]: spaces });
-    nextVersion = 2;
+  const settings = data[STORAGE_KEYS.SETTINGS];
+  if (settings !== undefined && !isRecord(settings)) return 'settings is not an object';
+  if (STORAGE_KEYS.TAB_METADATA in data) return 'tab metadata is still stored under one key';
+  for (const [key, value] of Object.entries(data)) {
+    if (key.startsWith(STORAGE_KEYS.TAB_METADATA_PREFIX) && !isRecord(value)) return `${key} is not an object`;
+  }
+  for (const key of [STORAGE_KEYS.SAVED_ITEMS, STORAGE_KEYS.LEARNED_EXAMPLES]) {
+    if (data[key] !== undefined && !Array.isArray(data[key])) return `${key} is not a list`;
   }
+  return null;
+}
 
-  await setSchemaVersion(nextVersion);
+async function migrateStorageIfNeeded(): Promise<void> {
+  const outcome = await runMigrations({
+    migrations: MIGRATIONS,
+    targetVersion: CURRENT_SCHEMA_VERSION,
+    versionKey: STORAGE_KEYS.SCHEMA_VERSION,
+    backupKey: STORAGE_KEYS.MIGRATION_BACKUP,
+    keys: PERSISTED_KEYS,
+    keyPrefixes: [STORAGE_KEYS.TAB_METADATA_PREFIX],
+    validate: validatePersistedState,
+  });
+  if (outcome.status === 'migrated') {
+    console.log(`[StateManager] Migrated storage from version ${outcome.from} to ${outcome.to}`);
+  } else if (outcome.status === 'failed') {
+    // The backup is back in place; the loaders below cope with the older layout and the
+    // migration is tried again on the next start
+    console.error(`[StateManager] Staying on storage version ${outcome.version}: ${outcome.error}`);
+  }
 }
 
 // ============================================
@@ -94,7 +190,13 @@ async function migrateStorageIfNeeded(): Promise<void> {
 // ============================================
 export async function loadSettings(): Promise<UserSettings> {
   const result = await chrome.storage.local.get(STORAGE_KEYS.SETTINGS);
-  return { ...DEFAULT_SETTINGS, ...(result[STORAGE_KEYS.SETTINGS] as Partial<UserSettings> ?? {}) };
+  const stored = result[STORAGE_KEYS.SETTINGS] as Partial<UserSettings> ?? {};
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    // Merge weights key-by-key so signals added later get their default weight
+    scoreWeights: { ...DEFAULT_SETTINGS.scoreWeights, ...stored.scoreWeights },
+  };
 }
 
 export async function saveSettings(settings: UserSettings): Promise<void> {
@@ -119,32 +221,49 @@ export async function saveSpaces(spaces: Space[]): Promise<void> {
 }
 
 // ============================================
-// Tab Metadata (persists across sessions)
+// Tab Metadata (persists across sessions, one key per tab)
 // ============================================
-export type TabMetadata = Record<number, { spaceId?: string; lastActiveAt?: number; domain?: string; subdomains?: string[]; keywords?: string[]; autoAssigned?: boolean }>;
+export type TabMetadata = Record<number, TabMetadataEntry>;
+
+function storedTabIds(stored: Record<string, unknown>): number[] {
+  return Object.keys(stored)
+    .filter(key => key.startsWith(STORAGE_KEYS.TAB_METADATA_PREFIX))
+    .map(key => Number(key.slice(STORAGE_KEYS.TAB_METADATA_PREFIX.length)))
+    .filter(tabId => !Number.isNaN(tabId));
+}
 
 export async function loadTabMetadata(): Promise<TabMetadata> {
-  const result = await chrome.storage.local.get(STORAGE_KEYS.TAB_METADATA);
-  return (result[STORAGE_KEYS.TAB_METADATA] as TabMetadata | undefined) ?? {} as TabMetadata;
+  const stored = await chrome.storage.local.get(null);
+  // Storage that failed to migrate still keeps everything under the old single key
+  const metadata: TabMetadata = { ...(stored[STORAGE_KEYS.TAB_METADATA] as TabMetadata | undefined) };
+  for (const tabId of storedTabIds(stored)) {
+    metadata[tabId] = stored[tabMetadataKey(tabId)] as TabMetadataEntry;
+  }
+  return metadata;
 }
 
 export async function saveTabMetadata(metadata: TabMetadata): Promise<void> {
-  await chrome.storage.local.set({ [STORAGE_KEYS.TAB_METADATA]: metadata });
+  const stored = await chrome.storage.local.get(null);
+  const removed = storedTabIds(stored).filter(tabId => !(tabId in metadata)).map(tabMetadataKey);
+  await chrome.storage.local.set(
+    Object.fromEntries(Object.entries(metadata).map(([tabId, entry]) => [tabMetadataKey(Number(tabId)), entry]))
+  );
+  if (removed.length > 0) {
+    await chrome.storage.local.remove(removed);
+  }
 }
 
 export async function updateTabMetadata(
   tabId: number,
   data: { spaceId?: string; lastActiveAt?: number }
 ): Promise<void> {
-  const metadata = await loadTabMetadata();
-  metadata[tabId] = { ...metadata[tabId], ...data };
-  await saveTabMetadata(metadata);
+  const key = tabMetadataKey(tabId);
+  const result = await chrome.storage.local.get(key);
+  await chrome.storage.local.set({ [key]: { ...(result[key] as TabMetadataEntry | undefined), ...data } });
 }
 
 export async function removeTabMetadata(tabId: number): Promise<void> {
-  const metadata = await loadTabMetadata();
-  delete metadata[tabId];
-  await saveTabMetadata(metadata);
+  await chrome.storage.local.remove(tabMetadataKey(tabId));
 }
 
 // ============================================
@@ -159,19 +278,73 @@ export async function saveSavedItems(items: SavedItem[]): Promise<void> {
   await chrome.storage.local.set({ [STORAGE_KEYS.SAVED_ITEMS]: items });
 }
 
+// ============================================
+// Learned Examples (manual reassignments)
+// ============================================
+export async function loadLearnedExamples(): Promise<LearnedExample[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.LEARNED_EXAMPLES);
+  return (result[STORAGE_KEYS.LEARNED_EXAMPLES] as LearnedExample[] | undefined) ?? [];
+}
+
+export async function saveLearnedExamples(examples: LearnedExample[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.LEARNED_EXAMPLES]: examples });
+}
+
+// ============================================
+// Diagnostics
+// ============================================
+export async function loadLastCleanup(): Promise<CleanupReport | undefined> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.LAST_CLEANUP);
+  return result[STORAGE_KEYS.LAST_CLEANUP] as CleanupReport | undefined;
+}
+
+export async function saveLastCleanup(report: CleanupReport): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.LAST_CLEANUP]: report });
+}
+
+export async function loadLastCompaction(): Promise<CompactionReport | undefined> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.LAST_COMPACTION);
+  return result[STORAGE_KEYS.LAST_COMPACTION] as CompactionReport | undefined;
+}
+
+export async function saveLastCompaction(report: CompactionReport): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.LAST_COMPACTION]: report });
+}
+
+export async function measureStorageUsage(): Promise<StorageUsage> {
+  const local = chrome.storage.local;
+  const tabKeys = storedTabIds(await local.get(null)).map(tabMetadataKey);
+  const [bytesInUse, settings, spaces, tabMetadata, savedItems, learnedExamples] = await Promise.all([
+    local.getBytesInUse(null),
+    local.getBytesInUse(STORAGE_KEYS.SETTINGS),
+    local.getBytesInUse(STORAGE_KEYS.SPACES),
+    tabKeys.length > 0 ? local.getBytesInUse(tabKeys) : 0,
+    local.getBytesInUse(STORAGE_KEYS.SAVED_ITEMS),
+    local.getBytesInUse(STORAGE_KEYS.LEARNED_EXAMPLES),
+  ]);
+  const other = bytesInUse - settings - spaces - tabMetadata - savedItems - learnedExamples;
+  return {
+    measuredAt: Date.now(),
+    bytesInUse,
+    quotaBytes: local.QUOTA_BYTES,
+    sections: { settings, spaces, tabMetadata, savedItems, learnedExamples, other },
+  };
+}
+
 // ============================================
 // Full Persisted State
 // ============================================
 export async function loadPersistedState(): Promise<PersistedState> {
   await migrateStorageIfNeeded();
-  const [settings, spaces, tabMetadata, savedItems] = await Promise.all([
+  const [settings, spaces, tabMetadata, savedItems, learnedExamples] = await Promise.all([
     loadSettings(),
     loadSpaces(),
     loadTabMetadata(),
     loadSavedItems(),
+    loadLearnedExamples(),
   ]);
 
-  return { settings, spaces, tabMetadata, savedItems };
+  return { settings, spaces, tabMetadata, savedItems, learnedExamples };
 }
 
 export async function savePersistedState(state: Partial<PersistedState>): Promise<void> {
@@ -183,30 +356,67 @@ export async function savePersistedState(state: Partial<PersistedState>): Promis
   if (state.spaces) {
     updates[STORAGE_KEYS.SPACES] = state.spaces;
   }
-  if (state.tabMetadata) {
-    updates[STORAGE_KEYS.TAB_METADATA] = state.tabMetadata;
-  }
   if (state.savedItems) {
     updates[STORAGE_KEYS.SAVED_ITEMS] = state.savedItems;
   }
+  if (state.learnedExamples) {
+    updates[STORAGE_KEYS.LEARNED_EXAMPLES] = state.learnedExamples;
+  }
 
   if (Object.keys(updates).length > 0) {
     await chrome.storage.local.set(updates);
   }
+  if (state.tabMetadata) {
+    await saveTabMetadata(state.tabMetadata);
+  }
 }
 
 // ============================================
 // State Manager (coordinates persistence with debouncing)
 // ============================================
+
+// Parts of the state stored under a single key each; tab metadata is tracked per tab instead
+export type StateSection = 'spaces' | 'settings' | 'savedItems' | 'learnedExamples';
+
+const SECTION_KEYS: Record<StateSection, string> = {
+  spaces: STORAGE_KEYS.SPACES,
+  settings: STORAGE_KEYS.SETTINGS,
+  savedItems: STORAGE_KEYS.SAVED_ITEMS,
+  learnedExamples: STORAGE_KEYS.LEARNED_EXAMPLES,
+};
+
+// What a change touched. Space.tabIds is rebuilt from tab metadata on load, so moving a tab
+// between spaces only dirties the tab itself.
+interface StateChanges {
+  sections?: StateSection[];
+  tabIds?: Iterable<number>;
+}
+
+// Roughly what a value costs against the storage quota, which counts serialized JSON
+function storedSize(key: string, value: unknown): number {
+  return key.length + JSON.stringify(value).length;
+}
+
 export class StateManager {
   private spaces: Space[] = [DEFAULT_SPACE];
   private settings: UserSettings = DEFAULT_SETTINGS;
   private tabMetadata: TabMetadata = {};
   private savedItems: SavedItem[] = [];
+  private learnedExamples: LearnedExample[] = [];
+  private lastCleanup: CleanupReport | undefined;
+  private lastCompaction: CompactionReport | undefined;
+  private usage: StorageUsage | undefined;
   private saveDebounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private saveDueAt = 0;
   private readonly SAVE_DEBOUNCE_MS = 500;
+  // Changes since the last write; a save writes only these
+  private dirtySections = new Set<StateSection>();
+  private dirtyTabIds = new Set<number>();
+  // Writes run one after another so an older snapshot never lands after a newer one
+  private saving: Promise<boolean> = Promise.resolve(true);
+  private writeStats: StorageWriteStats = { since: Date.now(), operations: 0, keysWritten: 0, keysRemoved: 0, bytesWritten: 0 };
   private initialized = false;
-  private changeListeners: Set<() => void> = new Set();
+  private changeListeners: Set<(sections: StateSection[]) => void> = new Set();
 
   /**
    * Initialize state manager - load persisted state
@@ -221,7 +431,10 @@ export class StateManager {
     this.settings = persisted.settings;
     this.tabMetadata = persisted.tabMetadata;
     this.savedItems = persisted.savedItems;
+    this.learnedExamples = persisted.learnedExamples.filter(example => isExampleLive(example, Date.now()));
     this.rebuildSpaceTabIds();
+    this.lastCleanup = await loadLastCleanup();
+    this.lastCompaction = await loadLastCompaction();
     this.initialized = true;
 
     console.log('[StateManager] Loaded', this.spaces.length, 'spaces');
@@ -260,8 +473,8 @@ export class StateManager {
    */
   setSavedItems(items: SavedItem[]): void {
     this.savedItems = items;
-    this.scheduleSave({ immediate: true });
-    this.notifyListeners();
+    this.scheduleSave({ sections: ['savedItems'] }, { immediate: true });
+    this.notifyListeners(['savedItems']);
   }
 
   /**
@@ -270,8 +483,8 @@ export class StateManager {
   addSavedItem(item: SavedItem): void {
     if (!this.savedItems.some(i => i.id === item.id || i.url === item.url)) {
       this.savedItems.unshift(item);
-      this.scheduleSave({ immediate: true });
-      this.notifyListeners();
+      this.scheduleSave({ sections: ['savedItems'] }, { immediate: true });
+      this.notifyListeners(['savedItems']);
     }
   }
 
@@ -280,8 +493,47 @@ export class StateManager {
    */
   removeSavedItem(idOrUrl: string): void {
     this.savedItems = this.savedItems.filter(i => i.id !== idOrUrl && i.url !== idOrUrl);
-    this.scheduleSave({ immediate: true });
-    this.notifyListeners();
+    this.scheduleSave({ sections: ['savedItems'] }, { immediate: true });
+    this.notifyListeners(['savedItems']);
+  }
+
+  /**
+   * Get examples learned from manual reassignments, oldest first
+   */
+  getLearnedExamples(): LearnedExample[] {
+    return this.learnedExamples;
+  }
+
+  /**
+   * Record a manual reassignment. Faded and overflowing examples are dropped.
+   */
+  addLearnedExample(example: LearnedExample): void {
+    const now = Date.now();
+    this.learnedExamples = [...this.learnedExamples, example]
+      .filter(e => isExampleLive(e, now))
+      .slice(-MAX_LEARNED_EXAMPLES);
+    this.scheduleSave({ sections: ['learnedExamples'] });
+  }
+
+  /**
+   * Forget one learned example, e.g. when the move it came from is undone
+   */
+  removeLearnedExample(example: LearnedExample): void {
+    const before = this.learnedExamples.length;
+    this.learnedExamples = this.learnedExamples.filter(
+      e => !(e.timestamp === example.timestamp && e.spaceId === example.spaceId),
+    );
+    if (this.learnedExamples.length !== before) {
+      this.scheduleSave({ sections: ['learnedExamples'] });
+    }
+  }
+
+  /**
+   * Forget everything learned from manual reassignments
+   */
+  clearLearnedExamples(): void {
+    this.learnedExamples = [];
+    this.scheduleSave({ sections: ['learnedExamples'] }, { immediate: true });
   }
 
   /**
@@ -289,8 +541,8 @@ export class StateManager {
    */
   setSpaces(spaces: Space[]): void {
     this.spaces = normalizeSpaces(spaces);
-    this.scheduleSave({ immediate: true });
-    this.notifyListeners();
+    this.scheduleSave({ sections: ['spaces'] }, { immediate: true });
+    this.notifyListeners(['spaces']);
   }
 
   /**
@@ -298,38 +550,155 @@ export class StateManager {
    */
   setSettings(settings: UserSettings): void {
     this.settings = settings;
-    this.scheduleSave({ immediate: true });
-    this.notifyListeners();
+    this.scheduleSave({ sections: ['settings'] }, { immediate: true });
+    this.notifyListeners(['settings']);
   }
 
   /**
    * Update metadata for a specific tab
    */
-  setTabMetadata(tabId: number, data: { spaceId?: string; lastActiveAt?: number; domain?: string; subdomains?: string[]; keywords?: string[]; autoAssigned?: boolean }): void {
+  setTabMetadata(tabId: number, data: TabMetadataEntry): void {
     this.tabMetadata[tabId] = { ...this.tabMetadata[tabId], ...data };
-    this.scheduleSave();
+    this.scheduleSave({ tabIds: [tabId] });
   }
 
   /**
    * Add space
    */
-  addSpace(name: string, color: string, icon?: string): Space {
+  addSpace(name: string, color: string, icon?: string, rules: SpaceRule[] = []): Space {
     const space: Space = {
-      id: `space_${Date.now()}`,
+      id: this.nextSpaceId(this.spaces),
       name,
       color,
       icon,
       tabIds: [],
-      rules: [],
+      rules,
       createdAt: Date.now(),
       lastAccessedAt: Date.now(),
     };
     this.spaces.push(space);
-    this.scheduleSave({ immediate: true });
-    this.notifyListeners();
+    this.scheduleSave({ sections: ['spaces'] }, { immediate: true });
+    this.notifyListeners(['spaces']);
     return space;
   }
 
+  /**
+   * Apply a validated export (see parseExport). Imported spaces get fresh ids, except that the
+   * file's Home merges into this Home; returns which id each of the file's spaces ended up with.
+   */
+  importState(bundle: ExportBundle, options: ImportOptions): { idMap: Map<string, string>; result: ImportResult } {
+    const result: ImportResult = { spacesAdded: 0, spacesMerged: 0, savedItemsAdded: 0, tabsOpened: 0 };
+    const idMap = new Map<string, string>();
+    const now = Date.now();
+    const home = this.spaces.find(space => space.id === DEFAULT_SPACE_ID) ?? DEFAULT_SPACE;
+    const spaces: Space[] = options.mode === 'replace' ? [{ ...home, rules: [] }] : [...this.spaces];
+
+    for (const imported of bundle.spaces) {
+      // A space of the same name takes the imported rules instead of getting a duplicate
+      const existing = imported.id === DEFAULT_SPACE_ID
+        ? spaces.find(space => space.id === DEFAULT_SPACE_ID)
+        : spaces.find(space => space.id !== DEFAULT_SPACE_ID && space.name.toLowerCase() === imported.name.toLowerCase());
+      if (existing) {
+        const newRules = imported.rules.filter(rule => !existing.rules.some(r => isSameRule(r, rule)));
+        existing.rules = [...existing.rules, ...newRules];
+        idMap.set(imported.id, existing.id);
+        result.spacesMerged++;
+        continue;
+      }
+
+      const space: Space = {
+        id: this.nextSpaceId(spaces),
+        name: imported.name,
+        color: imported.color,
+        icon: imported.icon,
+        tabIds: [],
+        rules: imported.rules,
+        autoAssignDisabled: imported.autoAssignDisabled,
+        createdAt: now,
+        lastAccessedAt: now,
+      };
+      spaces.push(space);
+      idMap.set(imported.id, space.id);
+      result.spacesAdded++;
+    }
+
+    this.spaces = spaces;
+    this.learnedExamples = this.learnedExamples.filter(example => spaces.some(space => space.id === example.spaceId));
+    // Tabs of spaces a replace dropped fall back to Home
+    this.rebuildSpaceTabIds();
+
+    if (options.settings && bundle.settings) {
+      this.settings = {
+        ...this.settings,
+        ...bundle.settings,
+        scoreWeights: { ...this.settings.scoreWeights, ...bundle.settings.scoreWeights },
+        // Per-device choices — page signals depend on a host permission granted in this browser
+        pageSignalsEnabled: this.settings.pageSignalsEnabled,
+        syncEnabled: this.settings.syncEnabled,
+      };
+    }
+
+    if (options.savedItems && bundle.savedItems) {
+      const kept = options.mode === 'replace' ? [] : this.savedItems;
+      const added = bundle.savedItems.filter(item => !kept.some(i => i.url === item.url));
+      this.savedItems = [...kept, ...added];
+      result.savedItemsAdded = added.length;
+    }
+
+    this.scheduleSave({ sections: ['spaces', 'settings', 'savedItems', 'learnedExamples'] }, { immediate: true });
+    this.notifyListeners(['spaces', 'settings', 'savedItems', 'learnedExamples']);
+    return { idMap, result };
+  }
+
+  /**
+   * Bring spaces, settings and saved items in line with what sync merged from other devices.
+   * Spaces deleted elsewhere are removed here too; returns the tabs that moved to Home.
+   */
+  applySyncedState(state: SyncedState): number[] {
+    const before = JSON.stringify([this.spaces, this.settings, this.savedItems]);
+    const movedTabIds: number[] = [];
+
+    const syncedIds = new Set(state.spaces.map(space => space.id));
+    for (const space of [...this.spaces]) {
+      if (!syncedIds.has(space.id)) movedTabIds.push(...this.removeSpace(space.id));
+    }
+
+    const now = Date.now();
+    for (const synced of state.spaces) {
+      const existing = this.spaces.find(space => space.id === synced.id);
+      if (existing) {
+        Object.assign(existing, synced);
+      } else {
+        this.spaces.push({ ...synced, tabIds: [], createdAt: now, lastAccessedAt: now });
+      }
+    }
+
+    this.settings = { ...this.settings, ...state.settings };
+    this.savedItems = state.savedItems;
+
+    if (JSON.stringify([this.spaces, this.settings, this.savedItems]) !== before) {
+      this.scheduleSave({ sections: ['spaces', 'settings', 'savedItems'] }, { immediate: true });
+      this.notifyListeners(['spaces', 'settings', 'savedItems']);
+    }
+    return movedTabIds;
+  }
+
+  /**
+   * Put back a deleted space (undo) — same id and position, its learned examples
+   * restored. Tabs are not moved back here; the caller reassigns the ones still open.
+   */
+  restoreSpace(space: Space, index: number, learnedExamples: LearnedExample[] = []): Space {
+    if (this.spaces.some(s => s.id === space.id)) return space;
+    const restored: Space = { ...space, tabIds: [] };
+    this.spaces.splice(Math.min(index, this.spaces.length), 0, restored);
+    this.learnedExamples = [...this.learnedExamples, ...learnedExamples]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-MAX_LEARNED_EXAMPLES);
+    this.scheduleSave({ sections: ['spaces', 'learnedExamples'] }, { immediate: true });
+    this.notifyListeners(['spaces', 'learnedExamples']);
+    return restored;
+  }
+
   /**
    * Remove space
    */
@@ -344,6 +713,7 @@ export class StateManager {
     const movedTabIds = new Set<number>();
 
     this.spaces = this.spaces.filter(s => s.id !== spaceId);
+    this.learnedExamples = this.learnedExamples.filter(e => e.spaceId !== spaceId);
 
     // Move tabs from deleted space to default
     for (const tabId of spaceToRemove.tabIds) {
@@ -368,8 +738,8 @@ export class StateManager {
       }
     }
 
-    this.scheduleSave({ immediate: true });
-    this.notifyListeners();
+    this.scheduleSave({ sections: ['spaces', 'learnedExamples'], tabIds: movedTabIds }, { immediate: true });
+    this.notifyListeners(['spaces', 'learnedExamples']);
     return Array.from(movedTabIds);
   }
 
@@ -385,13 +755,13 @@ export class StateManager {
    */
   updateSpace(
     spaceId: string,
-    updates: Partial<Pick<Space, 'name' | 'color' | 'icon' | 'rules' | 'lastAccessedAt' | 'autoAssignDisabled'>>
+    updates: Partial<Pick<Space, 'name' | 'color' | 'icon' | 'rules' | 'lastAccessedAt' | 'autoAssignDisabled' | 'archive'>>
   ): void {
     const space = this.spaces.find(s => s.id === spaceId);
     if (space) {
       Object.assign(space, updates);
-      this.scheduleSave({ immediate: true });
-      this.notifyListeners();
+      this.scheduleSave({ sections: ['spaces'] }, { immediate: true });
+      this.notifyListeners(['spaces']);
     }
   }
 
@@ -417,7 +787,7 @@ export class StateManager {
     }
 
     this.tabMetadata[tabId] = { ...this.tabMetadata[tabId], spaceId: targetSpaceId };
-    this.scheduleSave({ immediate: true });
+    this.scheduleSave({ tabIds: [tabId] }, { immediate: true });
     this.notifyListeners();
     return targetSpaceId;
   }
@@ -430,23 +800,179 @@ export class StateManager {
     for (const space of this.spaces) {
       space.tabIds = space.tabIds.filter(id => id !== tabId);
     }
-    this.scheduleSave();
+    this.scheduleSave({ tabIds: [tabId] });
+  }
+
+  /**
+   * Move metadata from old tab ids to the new ids of the same tabs (after a restart), and drop
+   * entries whose id now belongs to an unrelated tab
+   */
+  reassignTabMetadata(matches: [newTabId: number, oldTabId: number][], staleTabIds: number[] = []): void {
+    if (matches.length === 0 && staleTabIds.length === 0) return;
+
+    const previous = { ...this.tabMetadata };
+    for (const tabId of staleTabIds) delete this.tabMetadata[tabId];
+    for (const [, oldTabId] of matches) delete this.tabMetadata[oldTabId];
+    for (const [newTabId, oldTabId] of matches) {
+      this.tabMetadata[newTabId] = previous[oldTabId];
+    }
+
+    this.rebuildSpaceTabIds();
+    this.scheduleSave({ tabIds: [...staleTabIds, ...matches.flat()] });
+    this.notifyListeners();
+  }
+
+  /**
+   * Drop metadata and space tabIds for tabs that no longer exist — closed while the
+   * service worker was asleep, or lost with a crashed window
+   */
+  async pruneOrphanedTabs(): Promise<CleanupReport> {
+    // Only ids known before the query are candidates; tabs created meanwhile are left alone
+    const known = new Set(Object.keys(this.tabMetadata).map(Number));
+    for (const space of this.spaces) {
+      for (const tabId of space.tabIds) known.add(tabId);
+    }
+
+    const liveTabs = await chrome.tabs.query({});
+    const liveIds = new Set(liveTabs.map(tab => tab.id));
+    const report: CleanupReport = { ranAt: Date.now(), liveTabs: liveTabs.length, metadataRemoved: 0, tabIdsRemoved: 0 };
+    const removed: number[] = [];
+
+    // No tabs at all means the browser is shutting down — not that everything was closed
+    if (liveTabs.length > 0) {
+      for (const tabId of known) {
+        if (liveIds.has(tabId)) continue;
+        if (this.tabMetadata[tabId]) {
+          delete this.tabMetadata[tabId];
+          removed.push(tabId);
+          report.metadataRemoved++;
+        }
+        for (const space of this.spaces) {
+          const before = space.tabIds.length;
+          space.tabIds = space.tabIds.filter(id => id !== tabId);
+          report.tabIdsRemoved += before - space.tabIds.length;
+        }
+      }
+    }
+
+    if (report.metadataRemoved > 0 || report.tabIdsRemoved > 0) {
+      console.log('[StateManager] Pruned', report.metadataRemoved, 'metadata entries and', report.tabIdsRemoved, 'space tab ids');
+      this.scheduleSave({ tabIds: removed });
+      this.notifyListeners();
+    }
+
+    this.lastCleanup = report;
+    await saveLastCleanup(report);
+    return report;
+  }
+
+  /**
+   * Measure storage use per section, including changes not written yet
+   */
+  async refreshStorageUsage(): Promise<StorageUsage> {
+    await this.saveNow();
+    this.usage = await measureStorageUsage();
+    return this.usage;
+  }
+
+  /**
+   * Shrink what's stored: trim tab feature lists, drop entries of tabs closed long ago,
+   * cap saved items and drop an old migration backup
+   */
+  async compactStorage(): Promise<CompactionReport> {
+    const before = await this.refreshStorageUsage();
+    const now = Date.now();
+    const report: CompactionReport = {
+      ranAt: now,
+      bytesBefore: before.bytesInUse,
+      bytesAfter: before.bytesInUse,
+      entriesTrimmed: 0,
+      metadataRemoved: 0,
+      savedItemsRemoved: 0,
+      backupRemoved: false,
+    };
+
+    const liveTabs = await chrome.tabs.query({});
+    const liveIds = new Set(liveTabs.map(tab => tab.id));
+    const changedTabIds: number[] = [];
+    for (const [tabIdStr, entry] of Object.entries(this.tabMetadata)) {
+      const tabId = Number(tabIdStr);
+      // As in pruneOrphanedTabs, no tabs at all means the browser is shutting down
+      if (liveTabs.length > 0 && !liveIds.has(tabId) && isLongClosed(entry, now)) {
+        delete this.tabMetadata[tabId];
+        for (const space of this.spaces) {
+          space.tabIds = space.tabIds.filter(id => id !== tabId);
+        }
+        changedTabIds.push(tabId);
+        report.metadataRemoved++;
+        continue;
+      }
+      const compacted = compactTabEntry(entry);
+      if (compacted !== entry) {
+        this.tabMetadata[tabId] = compacted;
+        changedTabIds.push(tabId);
+        report.entriesTrimmed++;
+      }
+    }
+
+    const savedItems = capSavedItems(this.savedItems);
+    report.savedItemsRemoved = this.savedItems.length - savedItems.length;
+    this.savedItems = savedItems;
+
+    const backup = await loadMigrationBackup(STORAGE_KEYS.MIGRATION_BACKUP);
+    if (backup && now - backup.createdAt > MIGRATION_BACKUP_RETENTION_MS) {
+      await chrome.storage.local.remove(STORAGE_KEYS.MIGRATION_BACKUP);
+      report.backupRemoved = true;
+    }
+
+    const sections: StateSection[] = report.savedItemsRemoved > 0 ? ['savedItems'] : [];
+    this.scheduleSave({ sections, tabIds: changedTabIds });
+    report.bytesAfter = (await this.refreshStorageUsage()).bytesInUse;
+    console.log('[StateManager] Compacted storage from', report.bytesBefore, 'to', report.bytesAfter, 'bytes');
+    if (report.metadataRemoved > 0 || report.savedItemsRemoved > 0) {
+      this.notifyListeners(sections);
+    }
+
+    this.lastCompaction = report;
+    await saveLastCompaction(report);
+    return report;
   }
 
   /**
-   * Subscribe to changes
+   * Counts for the diagnostics view
    */
-  subscribe(callback: () => void): () => void {
+  getDiagnostics(): StorageDiagnostics {
+    return {
+      metadataEntries: Object.keys(this.tabMetadata).length,
+      spaceTabIds: this.spaces.reduce((total, space) => total + space.tabIds.length, 0),
+      lastCleanup: this.lastCleanup,
+      writes: { ...this.writeStats },
+      usage: this.usage,
+      lastCompaction: this.lastCompaction,
+    };
+  }
+
+  /**
+   * Subscribe to changes; the callback gets the sections that changed (none when only tabs moved)
+   */
+  subscribe(callback: (sections: StateSection[]) => void): () => void {
     this.changeListeners.add(callback);
     return () => this.changeListeners.delete(callback);
   }
 
+  // Spaces created in one go (e.g. from "Suggest spaces") can land on the same millisecond
+  private nextSpaceId(taken: Space[]): string {
+    let id = `space_${Date.now()}`;
+    for (let n = 2; taken.some(s => s.id === id); n++) id = `space_${Date.now()}_${n}`;
+    return id;
+  }
+
   /**
    * Notify listeners of changes
    */
-  private notifyListeners(): void {
+  private notifyListeners(sections: StateSection[] = []): void {
     for (const listener of this.changeListeners) {
-      listener();
+      listener(sections);
     }
   }
 
@@ -456,7 +982,7 @@ export class StateManager {
       space.tabIds = [];
     }
 
-    let updatedMetadata = false;
+    const updatedTabIds: number[] = [];
     for (const [tabIdStr, metadata] of Object.entries(this.tabMetadata)) {
       const tabId = parseInt(tabIdStr, 10);
       if (Number.isNaN(tabId)) continue;
@@ -471,48 +997,92 @@ export class StateManager {
 
       if (metadata.spaceId !== space.id) {
         this.tabMetadata[tabId] = { ...metadata, spaceId: space.id };
-        updatedMetadata = true;
+        updatedTabIds.push(tabId);
       }
     }
 
-    if (updatedMetadata) {
-      this.scheduleSave();
+    if (updatedTabIds.length > 0) {
+      this.scheduleSave({ tabIds: updatedTabIds });
     }
   }
 
   /**
-   * Immediately persist state to chrome.storage.local (use when you need to await completion)
+   * Immediately persist pending changes to chrome.storage.local (use when you need to await completion).
+   * Resolves to false when the write failed; the changes stay pending for the next save.
    */
-  async saveNow(): Promise<void> {
+  async saveNow(): Promise<boolean> {
     if (this.saveDebounceTimer) {
       clearTimeout(this.saveDebounceTimer);
       this.saveDebounceTimer = null;
     }
-    await savePersistedState({
-      spaces: this.spaces,
-      settings: this.settings,
-      tabMetadata: this.tabMetadata,
-      savedItems: this.savedItems,
-    });
+    this.saving = this.saving.then(() => this.writeChanges());
+    return this.saving;
   }
 
   /**
-   * Schedule a debounced save to storage
+   * Write the dirty sections and tab entries in one set() (plus one remove() for closed tabs)
    */
-  private scheduleSave(options: { immediate?: boolean } = {}): void {
-    if (this.saveDebounceTimer) {
-      clearTimeout(this.saveDebounceTimer);
+  private async writeChanges(): Promise<boolean> {
+    const sections = [...this.dirtySections];
+    const tabIds = [...this.dirtyTabIds];
+    this.dirtySections.clear();
+    this.dirtyTabIds.clear();
+
+    const updates: Record<string, unknown> = {};
+    for (const section of sections) {
+      updates[SECTION_KEYS[section]] = this[section];
+    }
+    const removed: string[] = [];
+    for (const tabId of tabIds) {
+      const entry = this.tabMetadata[tabId];
+      if (entry) updates[tabMetadataKey(tabId)] = entry;
+      else removed.push(tabMetadataKey(tabId));
     }
 
-    if (options.immediate) {
-      void this.saveNow();
-      return;
+    try {
+      if (Object.keys(updates).length > 0) {
+        await chrome.storage.local.set(updates);
+        this.writeStats.operations++;
+        this.writeStats.keysWritten += Object.keys(updates).length;
+        for (const [key, value] of Object.entries(updates)) {
+          this.writeStats.bytesWritten += storedSize(key, value);
+        }
+      }
+      if (removed.length > 0) {
+        await chrome.storage.local.remove(removed);
+        this.writeStats.operations++;
+        this.writeStats.keysRemoved += removed.length;
+      }
+      return true;
+    } catch (err) {
+      // Keep the changes pending so the next save tries again
+      console.error('[StateManager] Failed to save state:', err);
+      for (const section of sections) this.dirtySections.add(section);
+      for (const tabId of tabIds) this.dirtyTabIds.add(tabId);
+      return false;
+    }
+  }
+
+  /**
+   * Mark what changed and schedule a save. Changes arriving before a scheduled save join it
+   * instead of pushing it back; even immediate saves wait for the current task to finish, so a
+   * burst of changes (a bulk re-sort moving many tabs) becomes one write.
+   */
+  private scheduleSave(changes: StateChanges, options: { immediate?: boolean } = {}): void {
+    for (const section of changes.sections ?? []) this.dirtySections.add(section);
+    for (const tabId of changes.tabIds ?? []) this.dirtyTabIds.add(tabId);
+
+    const dueAt = Date.now() + (options.immediate ? 0 : this.SAVE_DEBOUNCE_MS);
+    if (this.saveDebounceTimer) {
+      if (this.saveDueAt <= dueAt) return;
+      clearTimeout(this.saveDebounceTimer);
     }
 
+    this.saveDueAt = dueAt;
     this.saveDebounceTimer = setTimeout(() => {
       this.saveDebounceTimer = null;
       void this.saveNow();
-    }, this.SAVE_DEBOUNCE_MS);
+    }, dueAt - Date.now());
   }
 }
 
@@ -0,0 +1,58 @@
+// Keeps chrome.storage.local from growing without bound.
+// Usage is measured per section with getBytesInUse; once it passes a share of the quota, the
+// state manager compacts: feature lists on tab entries are trimmed, entries of tabs closed long
+// ago are dropped and the saved items list is capped. The rules live here; applying them is
+// StateManager.compactStorage().
+
+import type { SavedItem, StorageUsage, TabMetadataEntry } from '@/types';
+
+// Compact automatically once usage passes this share of the quota
+const COMPACT_AT_SHARE = 0.5;
+
+// Analysis lists are ranked (title keywords before page-signal ones) and the scorer leans on the
+// first few, so the tail is what goes
+const MAX_FEATURES = 24;
+const FEATURE_FIELDS = ['subdomains', 'keywords', 'pathSegments', 'pathPrefix', 'entities'] as const;
+
+const CLOSED_TAB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const MAX_SAVED_ITEMS = 500;
+
+// Long enough to roll back a bad update by hand; after that the copy is just dead weight
+export const MIGRATION_BACKUP_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Whether usage is high enough to compact without being asked. */
+export function needsCompaction(usage: StorageUsage): boolean {
+    return usage.bytesInUse > usage.quotaBytes * COMPACT_AT_SHARE;
+}
+
+/**
+ * The entry with oversized feature lists cut down and page signals of a page the tab has left
+ * dropped — or the same object when there was nothing to trim.
+ */
+export function compactTabEntry(entry: TabMetadataEntry): TabMetadataEntry {
+    let compacted = entry;
+    for (const field of FEATURE_FIELDS) {
+        const values = entry[field];
+        if (values && values.length > MAX_FEATURES) {
+            compacted = { ...compacted, [field]: values.slice(0, MAX_FEATURES) };
+        }
+    }
+    if (entry.pageSignals && entry.url && entry.pageSignals.url !== entry.url) {
+        compacted = { ...compacted, pageSignals: undefined };
+    }
+    return compacted;
+}
+
+/** Whether the entry of a tab that is no longer open is old enough to drop. */
+export function isLongClosed(entry: TabMetadataEntry, now: number): boolean {
+    const lastSeen = entry.lastActiveAt ?? entry.createdAt;
+    return lastSeen === undefined || now - lastSeen > CLOSED_TAB_RETENTION_MS;
+}
+
+/** The newest MAX_SAVED_ITEMS saved items, in their original order. */
+export function capSavedItems(items: SavedItem[]): SavedItem[] {
+    if (items.length <= MAX_SAVED_ITEMS) return items;
+    const kept = new Set([...items].sort((a, b) => b.savedAt - a.savedAt).slice(0, MAX_SAVED_ITEMS));
+    return items.filter(item => kept.has(item));
+}
@@ -1,41 +1,29 @@
 // Breaks down a tab's URL and title into structured pieces.
 // No network calls – purely string parsing.
 
+import { getPublicSuffix } from './publicSuffix';
+import { tokenizeTitle } from './tokenizer';
+import { buildSynonymMap, normalizeKeywords } from './keywordNormalizer';
+import { pageSignalTexts } from './pageSignals';
+import type { PageSignals } from '@/types';
+
 export interface TabAnalysis {
     domain: string;       // registered domain, e.g. "github.com" from "gist.github.com"
     subdomains: string[]; // e.g. ["gist"] from "gist.github.com"
     pathSegments: string[];
-    keywords: string[];   // from title, stop words removed
+    pathPrefix: string[]; // leading path segments, whole and in order, e.g. ["org-a", "repo"]
+    keywords: string[];   // from title (then page signals), stop words removed, accent-folded, stemmed, synonyms merged; CJK as bigrams
+    entities: string[];   // structured, namespaced site features, e.g. "github:repo:org-a/api"
     rawTitle: string;
     rawUrl: string;
 }
     
-// Two-part TLDs we know about so we don't chop them wrong.
-// e.g. "bbc.co.uk" → registered domain is "bbc.co.uk", not "co.uk"
-const MULTI_PART_TLDS = new Set([
-    'co.uk', 'co.nz', 'co.jp', 'co.za', 'co.in', 'co.kr', 'co.id',
-    'com.au', 'com.br', 'com.mx', 'com.ar', 'com.sg', 'com.ph',
-    'org.uk', 'net.uk', 'me.uk', 'ac.uk', 'gov.uk',
-    'gov.au', 'edu.au',
-    'ne.jp', 'or.jp', 'ac.jp', 'ad.jp',
-]);
-
-const STOP_WORDS = new Set([
-    'a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to',
-    'for', 'of', 'with', 'by', 'from', 'is', 'was', 'are', 'were',
-    'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
-    'it', 'its', 'this', 'that', 'these', 'those', 'i', 'you', 'he',
-    'she', 'we', 'they', 'my', 'your', 'his', 'her', 'our', 'their',
-    'what', 'which', 'who', 'how', 'when', 'where', 'why', 'not',
-    'no', 'so', 'if', 'then', 'than', 'as', 'up', 'out', 'about',
-    'into', 'through', 'during', 'before', 'after', 'above', 'below',
-    'between', 'each', 'more', 'most', 'other', 'some', 'such', 'also',
-    'just', 'new', 'can', 'will', 'would', 'could', 'should',
-]);
-
 // Junk segments we never want in pathSegments
 const SKIP_PATH_TOKENS = new Set(['www', 'index', 'html', 'htm', 'php', 'aspx', 'jsp']);
 
+// How many leading segments make up pathPrefix — enough for "owner/project" style URLs
+const PATH_PREFIX_DEPTH = 2;
+
 function isSpecialUrl(url: string): boolean {
     if (!url) return true;
     return (
@@ -47,45 +35,62 @@ function isSpecialUrl(url: string): boolean {
     );
 }
 
+function isIpAddress(hostname: string): boolean {
+    return /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) || hostname.startsWith('[');
+}
+
 // Returns { domain, subdomains } from a hostname string.
-// Strips www, handles two-part TLDs like co.uk.
-function extractDomainParts(hostname: string): { domain: string; subdomains: string[] } {
-    const stripped = hostname.replace(/^www\./, '');
+// Strips www; the registered domain is one label past the public suffix, so
+// "bbc.co.uk", "foo.github.io" and "example.com.tr" all come out whole.
+export function extractDomainParts(hostname: string): { domain: string; subdomains: string[] } {
+    const stripped = hostname.toLowerCase().replace(/\.$/, '').replace(/^www\./, '');
     const parts = stripped.split('.');
 
-    if (parts.length <= 2) {
-        // "github.com" or "localhost" — nothing to split off
+    if (parts.length < 2 || isIpAddress(stripped)) {
+        // "localhost", "192.168.1.10" — nothing to split off
         return { domain: stripped, subdomains: [] };
     }
 
-    const lastTwo = `${parts[parts.length - 2]}.${parts[parts.length - 1]}`;
-    if (MULTI_PART_TLDS.has(lastTwo)) {
-        if (parts.length === 3) {
-            // e.g. "bbc.co.uk" with no subdomain
-            return { domain: stripped, subdomains: [] };
-        }
-        return {
-            domain: parts.slice(-3).join('.'),
-            subdomains: parts.slice(0, -3),
-        };
+    const suffixLength = getPublicSuffix(stripped).split('.').length;
+    if (suffixLength >= parts.length) {
+        // The host is itself a public suffix, e.g. "github.io"
+        return { domain: stripped, subdomains: [] };
     }
 
     return {
-        domain: parts.slice(-2).join('.'),
-        subdomains: parts.slice(0, -2),
+        domain: parts.slice(-(suffixLength + 1)).join('.'),
+        subdomains: parts.slice(0, -(suffixLength + 1)),
     };
 }
 
-function extractPathSegments(pathname: string): string[] {
+// Malformed escapes ("%E0%A4%A") make decodeURIComponent throw — keep the raw segment instead
+function safeDecode(seg: string): string {
+    try {
+        return decodeURIComponent(seg);
+    } catch {
+        return seg;
+    }
+}
+
+function isIdSegment(seg: string): boolean {
+    if (/^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i.test(seg)) return true; // UUID
+    if (/^\d+$/.test(seg) && seg.length < 6) return true; // short numeric ID
+    return false;
+}
+
+function normalizePathSegments(pathname: string): string[] {
     return pathname
         .split('/')
-        .map(seg => decodeURIComponent(seg).toLowerCase())
-        .map(seg => seg.replace(/\.[a-z0-9]{1,5}$/, '')) // strip extensions
+        .map(seg => safeDecode(seg).toLowerCase())
+        .map(seg => seg.replace(/\.[a-z0-9]{1,5}$/, '')); // strip extensions
+}
+
+function extractPathSegments(pathname: string): string[] {
+    return normalizePathSegments(pathname)
         .filter(seg => {
             if (!seg) return false;
             if (SKIP_PATH_TOKENS.has(seg)) return false;
-            if (/^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i.test(seg)) return false; // UUID
-            if (/^\d+$/.test(seg) && seg.length < 6) return false; // short numeric ID
+            if (isIdSegment(seg)) return false;
             if (seg.length < 2) return false;
             return true;
         })
@@ -93,30 +98,200 @@ function extractPathSegments(pathname: string): string[] {
         .filter(seg => seg.length >= 2);
 }
 
-function extractTitleKeywords(title: string): string[] {
-    if (!title) return [];
+// Unlike pathSegments, order matters here and slugs are kept whole, so
+// "/org-a/api" and "/org-b/api" stay distinguishable. Stops at the first ID-like segment.
+function extractPathPrefix(pathname: string): string[] {
+    const prefix: string[] = [];
+    for (const seg of normalizePathSegments(pathname)) {
+        if (!seg || SKIP_PATH_TOKENS.has(seg)) continue;
+        if (isIdSegment(seg)) break;
+        prefix.push(seg);
+        if (prefix.length === PATH_PREFIX_DEPTH) break;
+    }
+    return prefix;
+}
+
+// ============================================
+// Site-specific extractors
+// ============================================
+
+export interface SiteExtraction {
+    /** Title with the site's boilerplate removed; keywords come from this */
+    title?: string;
+    /** Namespaced structured features, e.g. "jira:project:ABC" */
+    entities?: string[];
+}
 
-    const tokens = title
-        .split(/[\s\-\|·–—:,;\/\\]+/)
-        .map(tok => tok.toLowerCase().replace(/[^a-z0-9']/g, '').trim())
-        .filter(tok => tok.length >= 2 && !STOP_WORDS.has(tok));
+export interface SiteExtractor {
+    id: string;
+    /** Receives the lowercase hostname, www included */
+    matches(hostname: string): boolean;
+    extract(url: URL, title: string): SiteExtraction;
+}
 
-    // dedupe, keep first occurrence
-    const seen = new Set<string>();
-    return tokens.filter(tok => {
-        if (seen.has(tok)) return false;
-        seen.add(tok);
-        return true;
-    });
+// Strip a trailing "<sep> Site" from a title, e.g. "Fix login · org/repo · GitHub"
+function stripTitleSuffix(title: string, suffix: RegExp): string {
+    return title.replace(suffix, '').trim();
 }
 
-export function analyzeTab(tabId: number, url: string, title: string): TabAnalysis {
+const GITHUB_RESERVED = new Set([
+    'settings', 'notifications', 'marketplace', 'explore', 'topics', 'features', 'login',
+    'sponsors', 'pulls', 'issues', 'search', 'new', 'codespaces', 'dashboard', 'trending',
+]);
+
+const githubExtractor: SiteExtractor = {
+    id: 'github',
+    matches: host => host === 'github.com' || host === 'www.github.com',
+    extract(url, title) {
+        const [first, second] = url.pathname.split('/').filter(Boolean).map(seg => seg.toLowerCase());
+        const entities: string[] = [];
+        const owner = first === 'orgs' ? second : first;
+        if (owner && !GITHUB_RESERVED.has(owner)) {
+            entities.push(`github:owner:${owner}`);
+            if (first !== 'orgs' && second) entities.push(`github:repo:${owner}/${second}`);
+        }
+        return { title: stripTitleSuffix(title, /\s*[·|-]\s*GitHub\s*$/i), entities };
+    },
+};
+
+const atlassianExtractor: SiteExtractor = {
+    id: 'atlassian',
+    matches: host => host.endsWith('.atlassian.net') || /^jira\./.test(host) || /^confluence\./.test(host),
+    extract(url, title) {
+        const entities: string[] = [];
+        // Jira issue from the path (/browse/ABC-123) or board view (?selectedIssue=ABC-123)
+        const issue = url.pathname.match(/\/browse\/([A-Z][A-Z0-9_]+-\d+)/i)?.[1]
+            ?? url.searchParams.get('selectedIssue')
+            ?? title.match(/\[([A-Z][A-Z0-9_]+-\d+)\]/)?.[1];
+        const project = issue?.split('-')[0]
+            ?? url.pathname.match(/\/projects\/([A-Z][A-Z0-9_]+)/i)?.[1];
+        if (project) entities.push(`jira:project:${project.toUpperCase()}`);
+        if (issue) entities.push(`jira:issue:${issue.toUpperCase()}`);
+
+        const space = url.pathname.match(/\/wiki\/spaces\/([^/]+)/)?.[1];
+        if (space) entities.push(`confluence:space:${space.toUpperCase()}`);
+
+        const cleaned = stripTitleSuffix(title, /\s*[-|–]\s*(Jira|Confluence)(\s*[-|–].*)?$/i)
+            .replace(/^\[[A-Z][A-Z0-9_]+-\d+\]\s*/i, '');
+        return { title: cleaned, entities };
+    },
+};
+
+const googleDocsExtractor: SiteExtractor = {
+    id: 'google-docs',
+    matches: host => host === 'docs.google.com' || host === 'drive.google.com',
+    extract(url, title) {
+        const entities: string[] = [];
+        // /document/d/<id>, /spreadsheets/d/<id>, /presentation/d/<id>, /forms/d/<id>
+        const doc = url.pathname.match(/^\/(document|spreadsheets|presentation|forms)\/d\/([\w-]+)/);
+        if (doc) entities.push(`gdocs:${doc[1]}:${doc[2]}`);
+        const folder = url.pathname.match(/\/folders\/([\w-]+)/)?.[1];
+        if (folder) entities.push(`gdrive:folder:${folder}`);
+        return {
+            title: stripTitleSuffix(title, /\s*-\s*Google (Docs|Sheets|Slides|Forms|Drive)\s*$/i),
+            entities,
+        };
+    },
+};
+
+const youtubeExtractor: SiteExtractor = {
+    id: 'youtube',
+    matches: host => host === 'youtube.com' || host.endsWith('.youtube.com') || host === 'youtu.be',
+    extract(url, title) {
+        const entities: string[] = [];
+        const video = url.hostname === 'youtu.be'
+            ? url.pathname.slice(1)
+            : url.searchParams.get('v');
+        if (video) entities.push(`youtube:video:${video}`);
+        const channel = url.pathname.match(/^\/@([^/]+)/)?.[1];
+        if (channel) entities.push(`youtube:channel:${channel.toLowerCase()}`);
+        // Unread-count prefix "(3) " comes and goes — drop it too
+        const cleaned = stripTitleSuffix(title, /\s*-\s*YouTube\s*$/i).replace(/^\(\d+\)\s*/, '');
+        return { title: cleaned, entities };
+    },
+};
+
+const SITE_EXTRACTORS: SiteExtractor[] = [
+    githubExtractor,
+    atlassianExtractor,
+    googleDocsExtractor,
+    youtubeExtractor,
+];
+
+/** Add (or replace, by id) a site extractor. Extractors registered later are tried first. */
+export function registerSiteExtractor(extractor: SiteExtractor): void {
+    const existing = SITE_EXTRACTORS.findIndex(e => e.id === extractor.id);
+    if (existing !== -1) SITE_EXTRACTORS.splice(existing, 1);
+    SITE_EXTRACTORS.unshift(extractor);
+}
+
+// No dedicated extractor: drop a trailing "- Stack Overflow" style part when it just
+// names the site, i.e. matches the registered domain's first label.
+function stripGenericSiteSuffix(title: string, domain: string): string {
+    const site = domain.split('.')[0];
+    if (!site) return title;
+    const match = title.match(/^(.*\S)\s+[-|·–—]\s+([^-|·–—]+)$/);
+    if (!match) return title;
+    const suffix = match[2].toLowerCase().replace(/[^a-z0-9]/g, '');
+    return suffix === site.replace(/[^a-z0-9]/g, '') ? match[1] : title;
+}
+
+function runSiteExtractor(url: URL, title: string, domain: string): Required<SiteExtraction> {
+    const hostname = url.hostname.toLowerCase();
+    const extractor = SITE_EXTRACTORS.find(e => e.matches(hostname));
+    if (!extractor) return { title: stripGenericSiteSuffix(title, domain), entities: [] };
+    try {
+        const result = extractor.extract(url, title);
+        return { title: result.title ?? title, entities: result.entities ?? [] };
+    } catch (err) {
+        // A broken extractor shouldn't take analysis down with it
+        console.warn(`[TabAnalyzer] ${extractor.id} extractor failed:`, err);
+        return { title, entities: [] };
+    }
+}
+
+export interface AnalyzeOptions {
+    /** Synonym groups from settings; keywords are stemmed either way */
+    synonyms?: string[][];
+    /** Text read from the page; ignored unless it was read from this same URL */
+    pageSignals?: PageSignals;
+}
+
+// Page text is long next to a title — cap what it adds so it can't drown the title out
+const MAX_PAGE_SIGNAL_KEYWORDS = 20;
+
+function extractKeywords(title: string, rawUrl: string, options: AnalyzeOptions): string[] {
+    const synonyms = options.synonyms ? buildSynonymMap(options.synonyms) : undefined;
+    const titleKeywords = normalizeKeywords(tokenizeTitle(title), synonyms);
+    const signals = options.pageSignals;
+    if (!signals || signals.url !== rawUrl) return titleKeywords;
+
+    // Title keywords come first; the site's own name ("Medium") is noise in page text
+    const siteName = new Set(tokenizeTitle(signals.ogSiteName ?? ''));
+    const pageTokens = pageSignalTexts(signals)
+        .flatMap(text => tokenizeTitle(text))
+        .filter(tok => !siteName.has(tok));
+    const seen = new Set(titleKeywords);
+    const pageKeywords = normalizeKeywords(pageTokens, synonyms).filter(keyword => !seen.has(keyword));
+    return [...titleKeywords, ...pageKeywords.slice(0, MAX_PAGE_SIGNAL_KEYWORDS)];
+}
+
+export function analyzeTab(tabId: number, url: string, title: string, options: AnalyzeOptions = {}): TabAnalysis {
     const rawUrl = url ?? '';
     const rawTitle = title ?? '';
 
     if (isSpecialUrl(rawUrl)) {
         console.log(`[TabAnalyzer] #${tabId} skipped (special page): ${rawUrl}`);
-        return { domain: '', subdomains: [], pathSegments: [], keywords: [], rawTitle, rawUrl };
+        return {
+            domain: '',
+            subdomains: [],
+            pathSegments: [],
+            pathPrefix: [],
+            keywords: [],
+            entities: [],
+            rawTitle,
+            rawUrl,
+        };
     }
 
     let parsed: URL;
@@ -128,7 +303,9 @@ export function analyzeTab(tabId: number, url: string, title: string): TabAnalys
             domain: '',
             subdomains: [],
             pathSegments: [],
-            keywords: extractTitleKeywords(rawTitle),
+            pathPrefix: [],
+            keywords: extractKeywords(rawTitle, rawUrl, options),
+            entities: [],
             rawTitle,
             rawUrl,
         };
@@ -136,9 +313,20 @@ export function analyzeTab(tabId: number, url: string, title: string): TabAnalys
 
     const { domain, subdomains } = extractDomainParts(parsed.hostname);
     const pathSegments = extractPathSegments(parsed.pathname);
-    const keywords = extractTitleKeywords(rawTitle);
+    const pathPrefix = extractPathPrefix(parsed.pathname);
+    const site = runSiteExtractor(parsed, rawTitle, domain);
+    const keywords = extractKeywords(site.title, rawUrl, options);
 
-    const analysis: TabAnalysis = { domain, subdomains, pathSegments, keywords, rawTitle, rawUrl };
+    const analysis: TabAnalysis = {
+        domain,
+        subdomains,
+        pathSegments,
+        pathPrefix,
+        keywords,
+        entities: site.entities,
+        rawTitle,
+        rawUrl,
+    };
     console.log(`[TabAnalyzer] #${tabId}`, analysis);
     return analysis;
 }
@@ -10,7 +10,8 @@ class TabEngine {
   private subscribers: Set<StateChangeCallback> = new Set();
   private serializedStateCache: SerializedTabState | null = null;
   private cacheLastUpdated = 0;
-  private updateDebounceTimers: Map<number, ReturnType<typeof setTimeout>> = new Map();
+  // Debounced onUpdated events, kept with their arguments so they can be flushed before suspension
+  private pendingUpdates: Map<number, { timer: ReturnType<typeof setTimeout>; changeInfo: object; tab: chrome.tabs.Tab }> = new Map();
   private readonly DEBOUNCE_MS = 50;
 
   constructor() {
@@ -29,8 +30,6 @@ class TabEngine {
     console.log('[TabEngine] Initializing...');
 
     await this.syncWithChrome();
-    this.attachTabListeners();
-    this.attachWindowListeners();
 
     this.initialized = true;
     console.log('[TabEngine] Initialized with', this.state.tabs.size, 'tabs');
@@ -79,148 +78,232 @@ class TabEngine {
     this.notifySubscribers();
   }
 
-  private attachTabListeners(): void {
-    chrome.tabs.onCreated.addListener((tab) => {
-      if (tab.id === undefined) return;
+  // ============================================
+  // Event handlers — the service worker registers the chrome listeners and calls these
+  // ============================================
 
-      const extendedTab: ExtendedTab = {
-        ...tab,
-        lastActiveAt: Date.now(),
-      };
+  onTabCreated(tab: chrome.tabs.Tab): void {
+    if (tab.id === undefined) return;
 
-      this.state.tabs.set(tab.id, extendedTab);
+    const extendedTab: ExtendedTab = {
+      ...tab,
+      lastActiveAt: Date.now(),
+    };
 
-      if (tab.windowId !== undefined) {
-        const window = this.state.windows.get(tab.windowId);
-        if (window) {
-          window.tabIds.push(tab.id);
-        }
+    this.state.tabs.set(tab.id, extendedTab);
+
+    if (tab.windowId !== undefined) {
+      const window = this.state.windows.get(tab.windowId);
+      // Events queued while the worker started up may repeat what syncWithChrome already saw
+      if (window && !window.tabIds.includes(tab.id)) {
+        window.tabIds.push(tab.id);
       }
+    }
 
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
 
-      broadcastMessage({
-        type: 'TAB_CREATED',
-        tab: extendedTab,
-        windowId: tab.windowId ?? -1,
-      });
+    broadcastMessage({
+      type: 'TAB_CREATED',
+      tab: extendedTab,
+      windowId: tab.windowId ?? -1,
     });
+  }
 
-    chrome.tabs.onRemoved.addListener((tabId, removeInfo) => {
-      const pendingTimer = this.updateDebounceTimers.get(tabId);
-      if (pendingTimer) {
-        clearTimeout(pendingTimer);
-        this.updateDebounceTimers.delete(tabId);
-      }
+  onTabRemoved(tabId: number, removeInfo: chrome.tabs.OnRemovedInfo): void {
+    const pending = this.pendingUpdates.get(tabId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingUpdates.delete(tabId);
+    }
 
-      this.state.tabs.delete(tabId);
+    this.state.tabs.delete(tabId);
 
-      const window = this.state.windows.get(removeInfo.windowId);
-      if (window) {
-        window.tabIds = window.tabIds.filter(id => id !== tabId);
-      }
+    const window = this.state.windows.get(removeInfo.windowId);
+    if (window) {
+      window.tabIds = window.tabIds.filter(id => id !== tabId);
+    }
 
-      if (this.state.activeTabId === tabId) {
-        this.state.activeTabId = null;
-      }
+    if (this.state.activeTabId === tabId) {
+      this.state.activeTabId = null;
+    }
 
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
 
-      broadcastMessage({
-        type: 'TAB_REMOVED',
-        tabId,
-        windowId: removeInfo.windowId,
-      });
+    broadcastMessage({
+      type: 'TAB_REMOVED',
+      tabId,
+      windowId: removeInfo.windowId,
     });
+  }
 
-    chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
-      const existingTimer = this.updateDebounceTimers.get(tabId);
-      if (existingTimer) {
-        clearTimeout(existingTimer);
-      }
+  onTabUpdated(tabId: number, changeInfo: chrome.tabs.OnUpdatedInfo, tab: chrome.tabs.Tab): void {
+    const existing = this.pendingUpdates.get(tabId);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
 
-      const timer = setTimeout(() => {
-        this.handleTabUpdated(tabId, changeInfo, tab);
-        this.updateDebounceTimers.delete(tabId);
-      }, this.DEBOUNCE_MS);
+    const timer = setTimeout(() => {
+      this.pendingUpdates.delete(tabId);
+      this.handleTabUpdated(tabId, changeInfo, tab);
+    }, this.DEBOUNCE_MS);
 
-      this.updateDebounceTimers.set(tabId, timer);
+    this.pendingUpdates.set(tabId, { timer, changeInfo, tab });
+  }
+
+  /**
+   * Apply debounced tab updates right away (before the worker is suspended)
+   */
+  flushPendingUpdates(): void {
+    const pending = [...this.pendingUpdates.entries()];
+    this.pendingUpdates.clear();
+    for (const [tabId, { timer, changeInfo, tab }] of pending) {
+      clearTimeout(timer);
+      this.handleTabUpdated(tabId, changeInfo, tab);
+    }
+  }
+
+  onTabActivated(activeInfo: chrome.tabs.OnActivatedInfo): void {
+    const timestamp = Date.now();
+    const tab = this.state.tabs.get(activeInfo.tabId);
+    if (tab) {
+      tab.lastActiveAt = timestamp;
+      this.state.tabs.set(activeInfo.tabId, tab);
+    }
+    getStateManager().setTabMetadata(activeInfo.tabId, { lastActiveAt: timestamp });
+
+    this.state.activeTabId = activeInfo.tabId;
+    this.state.activeWindowId = activeInfo.windowId;
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
+
+    broadcastMessage({
+      type: 'TAB_ACTIVATED',
+      tabId: activeInfo.tabId,
+      windowId: activeInfo.windowId,
     });
+  }
 
-    chrome.tabs.onActivated.addListener((activeInfo) => {
-      const timestamp = Date.now();
-      const tab = this.state.tabs.get(activeInfo.tabId);
-      if (tab) {
-        tab.lastActiveAt = timestamp;
-        this.state.tabs.set(activeInfo.tabId, tab);
-      }
-      getStateManager().setTabMetadata(activeInfo.tabId, { lastActiveAt: timestamp });
+  onTabMoved(tabId: number, moveInfo: chrome.tabs.OnMovedInfo): void {
+    const window = this.state.windows.get(moveInfo.windowId);
+    if (window) {
+      window.tabIds = window.tabIds.filter(id => id !== tabId);
+      window.tabIds.splice(moveInfo.toIndex, 0, tabId);
+    }
 
-      this.state.activeTabId = activeInfo.tabId;
-      this.state.activeWindowId = activeInfo.windowId;
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
+    const tab = this.state.tabs.get(tabId);
+    if (tab) {
+      tab.index = moveInfo.toIndex;
+      tab.windowId = moveInfo.windowId;
+      this.state.tabs.set(tabId, tab);
+    }
 
-      broadcastMessage({
-        type: 'TAB_ACTIVATED',
-        tabId: activeInfo.tabId,
-        windowId: activeInfo.windowId,
-      });
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
+
+    broadcastMessage({
+      type: 'TAB_MOVED',
+      tabId,
+      fromIndex: moveInfo.fromIndex,
+      toIndex: moveInfo.toIndex,
+      windowId: moveInfo.windowId,
     });
+  }
 
-    chrome.tabs.onMoved.addListener((tabId, moveInfo) => {
-      const window = this.state.windows.get(moveInfo.windowId);
-      if (window) {
-        window.tabIds = window.tabIds.filter(id => id !== tabId);
-        window.tabIds.splice(moveInfo.toIndex, 0, tabId);
-      }
+  onTabAttached(tabId: number, attachInfo: chrome.tabs.OnAttachedInfo): void {
+    const tab = this.state.tabs.get(tabId);
+    if (tab) {
+      tab.windowId = attachInfo.newWindowId;
+      tab.index = attachInfo.newPosition;
+      this.state.tabs.set(tabId, tab);
+    }
 
-      const tab = this.state.tabs.get(tabId);
-      if (tab) {
-        tab.index = moveInfo.toIndex;
-        tab.windowId = moveInfo.windowId;
-        this.state.tabs.set(tabId, tab);
-      }
+    const window = this.state.windows.get(attachInfo.newWindowId);
+    if (window && !window.tabIds.includes(tabId)) {
+      window.tabIds.splice(attachInfo.newPosition, 0, tabId);
+    }
 
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
+  }
 
-      broadcastMessage({
-        type: 'TAB_MOVED',
-        tabId,
-        fromIndex: moveInfo.fromIndex,
-        toIndex: moveInfo.toIndex,
-        windowId: moveInfo.windowId,
-      });
+  onTabDetached(tabId: number, detachInfo: chrome.tabs.OnDetachedInfo): void {
+    const window = this.state.windows.get(detachInfo.oldWindowId);
+    if (window) {
+      window.tabIds = window.tabIds.filter(id => id !== tabId);
+    }
+
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
+  }
+
+  onWindowCreated(window: chrome.windows.Window): void {
+    if (window.id === undefined) return;
+
+    this.state.windows.set(window.id, {
+      id: window.id,
+      focused: window.focused ?? false,
+      tabIds: [],
     });
 
-    chrome.tabs.onAttached.addListener((tabId, attachInfo) => {
-      const tab = this.state.tabs.get(tabId);
-      if (tab) {
-        tab.windowId = attachInfo.newWindowId;
-        tab.index = attachInfo.newPosition;
-        this.state.tabs.set(tabId, tab);
-      }
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
+
+    broadcastMessage({
+      type: 'WINDOW_CREATED',
+      windowId: window.id,
+    });
+  }
 
-      const window = this.state.windows.get(attachInfo.newWindowId);
-      if (window) {
-        window.tabIds.splice(attachInfo.newPosition, 0, tabId);
+  onWindowRemoved(windowId: number): void {
+    const window = this.state.windows.get(windowId);
+    if (window) {
+      for (const tabId of window.tabIds) {
+        this.state.tabs.delete(tabId);
       }
+    }
 
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
+    this.state.windows.delete(windowId);
+
+    if (this.state.activeWindowId === windowId) {
+      this.state.activeWindowId = null;
+      this.state.activeTabId = null;
+    }
+
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
+
+    broadcastMessage({
+      type: 'WINDOW_REMOVED',
+      windowId,
     });
+  }
+
+  onWindowFocusChanged(windowId: number): void {
+    if (windowId === chrome.windows.WINDOW_ID_NONE) return;
+    if (this.state.activeWindowId === windowId) return;
 
-    chrome.tabs.onDetached.addListener((tabId, detachInfo) => {
-      const window = this.state.windows.get(detachInfo.oldWindowId);
-      if (window) {
-        window.tabIds = window.tabIds.filter(id => id !== tabId);
+    const prevWindowId = this.state.activeWindowId;
+    if (prevWindowId !== null) {
+      const prevWindow = this.state.windows.get(prevWindowId);
+      if (prevWindow) {
+        prevWindow.focused = false;
       }
+    }
 
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
+    const newWindow = this.state.windows.get(windowId);
+    if (newWindow) {
+      newWindow.focused = true;
+    }
+
+    this.state.activeWindowId = windowId;
+    this.state.lastUpdated = Date.now();
+    this.notifySubscribers();
+
+    broadcastMessage({
+      type: 'WINDOW_FOCUSED',
+      windowId,
     });
   }
 
@@ -235,6 +318,8 @@ class TabEngine {
       ...tab,
       lastActiveAt: existingTab?.lastActiveAt ?? tab.lastAccessed,
       spaceId: existingTab?.spaceId,
+      matchedRule: existingTab?.matchedRule,
+      suggestedSpaceId: existingTab?.suggestedSpaceId,
     };
 
     this.state.tabs.set(tabId, extendedTab);
@@ -247,77 +332,6 @@ class TabEngine {
     });
   }
 
-  private attachWindowListeners(): void {
-    chrome.windows.onCreated.addListener((window) => {
-      if (window.id === undefined) return;
-
-      this.state.windows.set(window.id, {
-        id: window.id,
-        focused: window.focused ?? false,
-        tabIds: [],
-      });
-
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
-
-      broadcastMessage({
-        type: 'WINDOW_CREATED',
-        windowId: window.id,
-      });
-    });
-
-    chrome.windows.onRemoved.addListener((windowId) => {
-      const window = this.state.windows.get(windowId);
-      if (window) {
-        for (const tabId of window.tabIds) {
-          this.state.tabs.delete(tabId);
-        }
-      }
-
-      this.state.windows.delete(windowId);
-
-      if (this.state.activeWindowId === windowId) {
-        this.state.activeWindowId = null;
-        this.state.activeTabId = null;
-      }
-
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
-
-      broadcastMessage({
-        type: 'WINDOW_REMOVED',
-        windowId,
-      });
-    });
-
-    chrome.windows.onFocusChanged.addListener((windowId) => {
-      if (windowId === chrome.windows.WINDOW_ID_NONE) return;
-      if (this.state.activeWindowId === windowId) return;
-
-      const prevWindowId = this.state.activeWindowId;
-      if (prevWindowId !== null) {
-        const prevWindow = this.state.windows.get(prevWindowId);
-        if (prevWindow) {
-          prevWindow.focused = false;
-        }
-      }
-
-      const newWindow = this.state.windows.get(windowId);
-      if (newWindow) {
-        newWindow.focused = true;
-      }
-
-      this.state.activeWindowId = windowId;
-      this.state.lastUpdated = Date.now();
-      this.notifySubscribers();
-
-      broadcastMessage({
-        type: 'WINDOW_FOCUSED',
-        windowId,
-      });
-    });
-  }
-
   private notifySubscribers(): void {
     this.invalidateCache();
     const state = this.getSerializedState();
@@ -365,7 +379,7 @@ class TabEngine {
     return this.state.tabs.get(tabId);
   }
 
-  updateTabMetadata(tabId: number, metadata: Partial<Pick<ExtendedTab, 'spaceId' | 'lastActiveAt'>>): void {
+  updateTabMetadata(tabId: number, metadata: Partial<Pick<ExtendedTab, 'spaceId' | 'lastActiveAt' | 'matchedRule' | 'suggestedSpaceId'>>): void {
     const tab = this.state.tabs.get(tabId);
     if (tab) {
       Object.assign(tab, metadata);
@@ -1,11 +1,28 @@
 // Auto-assignment orchestrator.
 // Owns chrome.tabs.onCreated / onUpdated logic; keeps assignment idempotent.
 
-import { analyzeTab } from '@/lib/tab-analyzer';
-import { rankSpaces, DEFAULT_DOMAIN_THRESHOLD, DEFAULT_JACCARD_THRESHOLD, type SpaceCorpus } from '@/lib/similarityScorer';
+import { analyzeTab, type AnalyzeOptions } from '@/lib/tab-analyzer';
+import { scoreAllSpaces, passesThreshold, type SpaceCorpus } from '@/lib/similarityScorer';
+import { isSameRule, matchSpaceRules } from '@/lib/spaceRules';
+import { KeywordIndex } from '@/lib/keywordIndex';
+import { buildLearnedProfiles, type LearnedProfile } from '@/lib/learnedProfiles';
+import { discoverSpaces, type DiscoveryTab } from '@/lib/spaceDiscovery';
+import { buildSynonymMap } from '@/lib/keywordNormalizer';
+import { SPACE_COLORS } from '@/lib/spaceColors';
 import { broadcastMessage } from '@/lib/messages';
 import type { StateManager } from '@/lib/storage';
-import type { ExtendedTab } from '@/types';
+import type {
+    AssignmentExplanation,
+    AssignmentStep,
+    ExtendedTab,
+    LearnedExample,
+    PageSignals,
+    ReclassifyChange,
+    ReclassifyScope,
+    Space,
+    SpaceProposal,
+    SpaceRule,
+} from '@/types';
 
 // TabEngine only exposes what we need — avoid a circular import by typing it locally.
 interface TabEngineLike {
@@ -16,6 +33,13 @@ interface TabEngineLike {
 
 const DEFAULT_SPACE_ID = 'default';
 
+interface Resolution {
+    spaceId: string;
+    /** Present only when an explicit space rule made the decision */
+    rule?: SpaceRule;
+    explanation: Omit<AssignmentExplanation, 'timestamp'>;
+}
+
 export class TabAssigner {
     /**
      * Fingerprint map — tracks the last "url|title" we scored for each tab.
@@ -24,11 +48,24 @@ export class TabAssigner {
      */
     private readonly scored = new Map<number, string>();
 
+    /** Document frequencies for IDF keyword weighting, one document per tab. */
+    private readonly keywordIndex = new KeywordIndex();
+
     constructor(
         private readonly stateManager: StateManager,
         private readonly tabEngine: TabEngineLike,
         private uiActiveSpaceId: string,
-    ) { }
+    ) {
+        // Seed from the persisted keywords of tabs that are still open — entries of closed
+        // tabs linger until the next cleanup and would skew document frequencies for good.
+        // Kept current by onUpdated/onRemoved afterwards.
+        const metadata = this.stateManager.getTabMetadata();
+        this.keywordIndex.rebuild(
+            this.tabEngine.getAllTabs()
+                .filter(tab => tab.id !== undefined)
+                .map(tab => [tab.id!, metadata[tab.id!]?.keywords ?? []] as [number, string[]]),
+        );
+    }
 
     /** Call this whenever the UI reports a space change. */
     setUiActiveSpaceId(id: string): void {
@@ -49,14 +86,23 @@ export class TabAssigner {
 
         // At creation time URL/title are usually blank — run the scorer anyway.
         // If it returns nothing useful we fall through to the active-space fallback.
-        const targetSpaceId = this.resolveSpace(
+        const resolution = this.resolveSpace(
             tabId,
             tab.url ?? '',
             tab.title ?? '',
             tab.openerTabId,
         );
 
-        this.doAssign(tabId, targetSpaceId, true);
+        if (this.isSuggestionOnly(resolution)) {
+            // Suggest mode — place the tab by the fallback chain and offer the match instead,
+            // unless the fallback already put it there
+            const placement = this.fallbackResolution(tab.openerTabId);
+            this.doAssign(tabId, placement, true);
+            if (resolution.spaceId !== placement.spaceId) this.suggest(tabId, resolution);
+            return;
+        }
+
+        this.doAssign(tabId, resolution, true);
     }
 
     /** Handle chrome.tabs.onUpdated (caller should filter for url/title changes) */
@@ -75,41 +121,249 @@ export class TabAssigner {
         if (this.scored.get(tabId) === fingerprint) return;
         this.scored.set(tabId, fingerprint);
 
+        // Signals from the previous page no longer describe this tab
+        if (changeInfo.url !== undefined && this.stateManager.getTabMetadata()[tabId]?.pageSignals) {
+            this.stateManager.setTabMetadata(tabId, { pageSignals: undefined });
+        }
+
+        this.evaluate(tabId, url, title, tab.openerTabId);
+    }
+
+    /**
+     * Handle page signals read from a loaded tab — richer text than the title alone,
+     * so the tab is analyzed and resolved again with it.
+     */
+    onPageSignals(tabId: number, signals: PageSignals): void {
+        const tab = this.tabEngine.getTab(tabId);
+        const url = tab?.url ?? '';
+        // Closed, or navigated on while the page script ran
+        if (!tab || signals.url !== url) return;
+        this.stateManager.setTabMetadata(tabId, { pageSignals: signals });
+        this.evaluate(tabId, url, tab.title ?? '', tab.openerTabId);
+    }
+
+    /** Analyze a tab, persist its features and move or suggest it if its best space changed. */
+    private evaluate(tabId: number, url: string, title: string, openerTabId?: number): void {
         // Persist analysis features so they contribute to future corpus builds
-        const analysis = analyzeTab(tabId, url, title);
+        const analysis = analyzeTab(tabId, url, title, this.analyzeOptions(tabId));
         this.stateManager.setTabMetadata(tabId, {
             domain: analysis.domain,
             subdomains: analysis.subdomains,
             keywords: analysis.keywords,
+            pathSegments: analysis.pathSegments,
+            pathPrefix: analysis.pathPrefix,
+            entities: analysis.entities,
         });
+        this.keywordIndex.set(tabId, analysis.keywords);
         broadcastMessage({ type: 'TAB_ANALYZED', analysis });
 
         // Respect manual assignments — if the user explicitly moved this tab, leave it alone
         const meta = this.stateManager.getTabMetadata()[tabId];
         if (meta?.autoAssigned === false) return;
 
-        const targetSpaceId = this.resolveSpace(tabId, url, title);
+        const resolution = this.resolveSpace(tabId, url, title, openerTabId);
 
         // Only broadcast/write if the space would actually change
         const currentSpaceId = meta?.spaceId ?? DEFAULT_SPACE_ID;
-        if (targetSpaceId === currentSpaceId) return;
+        if (resolution.spaceId === currentSpaceId) {
+            // Same space, but the reason may have changed (e.g. a rule now covers it)
+            this.stateManager.setTabMetadata(tabId, {
+                matchedRule: resolution.rule,
+                explanation: { ...resolution.explanation, timestamp: Date.now() },
+            });
+            if (!isSameRule(meta?.matchedRule, resolution.rule)) {
+                this.tabEngine.updateTabMetadata(tabId, { matchedRule: resolution.rule });
+            }
+            this.clearSuggestion(tabId);
+            return;
+        }
+
+        if (this.stateManager.getSettings().autoAssignMode === 'suggest') {
+            // Fallbacks aren't worth suggesting, and nothing moves on its own in suggest mode
+            if (this.isSuggestionOnly(resolution)) this.suggest(tabId, resolution);
+            else this.clearSuggestion(tabId);
+            return;
+        }
+
+        this.doAssign(tabId, resolution, true);
+    }
+
+    /** Apply the pending suggestion for a tab through the normal assign path. */
+    acceptSuggestion(tabId: number): void {
+        const suggestion = this.stateManager.getTabMetadata()[tabId]?.suggestion;
+        if (!suggestion) return;
+        this.doAssign(tabId, suggestion, true);
+    }
 
-        this.doAssign(tabId, targetSpaceId, true);
+    /** Drop the pending suggestion and don't offer that space for this tab again. */
+    dismissSuggestion(tabId: number): void {
+        const suggestion = this.stateManager.getTabMetadata()[tabId]?.suggestion;
+        if (!suggestion) return;
+        this.stateManager.setTabMetadata(tabId, { dismissedSuggestion: suggestion.spaceId });
+        this.clearSuggestion(tabId);
     }
 
     /**
-     * Mark a tab as manually assigned so the assigner won't touch it again.
+     * Mark a tab as manually assigned so the assigner won't touch it again, and
+     * learn from the move when it actually changed the tab's space. Returns what was
+     * learned, so undoing the move can forget it again.
      * Call this from the ASSIGN_TAB_TO_SPACE message handler.
      */
-    markManual(tabId: number): void {
-        this.stateManager.setTabMetadata(tabId, { autoAssigned: false });
+    markManual(tabId: number, previousSpaceId?: string): LearnedExample | undefined {
+        const meta = this.stateManager.getTabMetadata()[tabId];
+        const spaceId = meta?.spaceId ?? DEFAULT_SPACE_ID;
+        let example: LearnedExample | undefined;
+        if (previousSpaceId !== undefined && previousSpaceId !== spaceId && (meta?.domain || meta?.keywords?.length)) {
+            example = {
+                spaceId,
+                domain: meta.domain ?? '',
+                keywords: meta.keywords ?? [],
+                pathPrefix: meta.pathPrefix ?? [],
+                timestamp: Date.now(),
+            };
+            this.stateManager.addLearnedExample(example);
+        }
+        this.stateManager.setTabMetadata(tabId, {
+            autoAssigned: false,
+            matchedRule: undefined,
+            suggestion: undefined,
+            explanation: {
+                step: 'manual',
+                spaceId,
+                scores: [],
+                autoAssignEnabled: this.stateManager.getSettings().autoAssignSpaces,
+                timestamp: Date.now(),
+            },
+        });
+        this.tabEngine.updateTabMetadata(tabId, { matchedRule: undefined, suggestedSpaceId: undefined });
         // Remove from fingerprint cache so if the tab navigates later we re-evaluate freshly
         this.scored.delete(tabId);
+        return example;
+    }
+
+    /**
+     * Re-run rules and the scorer over tabs that are already open, e.g. after a space
+     * was created or its rules edited. Manually placed tabs are skipped, and only rule
+     * or scorer matches move a tab — fallbacks are for new tabs only.
+     * Returns the moves; nothing changes unless `apply` is set.
+     */
+    reclassify(
+        scope: ReclassifyScope,
+        options: { apply?: boolean; tabIds?: number[] } = {},
+    ): ReclassifyChange[] {
+        const metadata = this.stateManager.getTabMetadata();
+        const only = options.tabIds ? new Set(options.tabIds) : undefined;
+        const planned: { change: ReclassifyChange; resolution: Resolution }[] = [];
+        // The examples don't change during the pass — build the profiles once, not per tab
+        const learnedProfiles = buildLearnedProfiles(this.stateManager.getLearnedExamples());
+
+        for (const tab of this.tabEngine.getAllTabs()) {
+            const tabId = tab.id;
+            if (tabId === undefined) continue;
+            if (only && !only.has(tabId)) continue;
+            if (scope.kind === 'window' && tab.windowId !== scope.windowId) continue;
+
+            const meta = metadata[tabId];
+            if (meta?.autoAssigned === false) continue;
+
+            const resolution = this.resolveSpace(tabId, tab.url ?? '', tab.title ?? '', undefined, learnedProfiles);
+            const step = resolution.explanation.step;
+            if (step !== 'rule' && step !== 'scorer') continue;
+
+            const fromSpaceId = meta?.spaceId ?? DEFAULT_SPACE_ID;
+            if (resolution.spaceId === fromSpaceId) continue;
+            if (scope.kind === 'space' && fromSpaceId !== scope.spaceId && resolution.spaceId !== scope.spaceId) {
+                continue;
+            }
+
+            planned.push({
+                change: {
+                    tabId,
+                    title: tab.title,
+                    url: tab.url,
+                    fromSpaceId,
+                    toSpaceId: resolution.spaceId,
+                    step,
+                    rule: resolution.rule,
+                },
+                resolution,
+            });
+        }
+
+        // Plan everything first so earlier moves don't reshape the corpus for later tabs
+        if (options.apply) {
+            for (const { change, resolution } of planned) {
+                this.doAssign(change.tabId, resolution, true);
+            }
+        }
+        return planned.map(p => p.change);
+    }
+
+    /**
+     * Cluster the tabs still sitting in the default space into proposed spaces.
+     * Pinned tabs, tabs placed by hand and special pages are left out.
+     */
+    discoverSpaces(): SpaceProposal[] {
+        const metadata = this.stateManager.getTabMetadata();
+        const settings = this.stateManager.getSettings();
+        const tabs: DiscoveryTab[] = [];
+        for (const tab of this.tabEngine.getAllTabs()) {
+            const tabId = tab.id;
+            if (tabId === undefined || tab.pinned) continue;
+            const meta = metadata[tabId];
+            if ((meta?.spaceId ?? DEFAULT_SPACE_ID) !== DEFAULT_SPACE_ID || meta?.autoAssigned === false) continue;
+            if (!meta?.domain && !meta?.keywords?.length) continue;
+            tabs.push({
+                tabId,
+                title: tab.title ?? '',
+                features: {
+                    domain: meta.domain ?? '',
+                    subdomains: meta.subdomains ?? [],
+                    keywords: meta.keywords ?? [],
+                    pathSegments: meta.pathSegments ?? [],
+                    pathPrefix: meta.pathPrefix ?? [],
+                    entities: meta.entities ?? [],
+                },
+            });
+        }
+
+        const spaces = this.stateManager.getSpaces();
+        return discoverSpaces(tabs, {
+            weights: settings.scoreWeights,
+            threshold: settings.similarityThreshold,
+            idf: term => this.keywordIndex.idf(term),
+            synonyms: buildSynonymMap(settings.keywordSynonyms),
+            usedColors: spaces.map(space => space.color),
+            usedNames: spaces.map(space => space.name),
+            palette: SPACE_COLORS,
+        });
+    }
+
+    /** Create the confirmed proposals as spaces and move their tabs in. */
+    createProposedSpaces(proposals: SpaceProposal[]): Space[] {
+        const autoAssignEnabled = this.stateManager.getSettings().autoAssignSpaces;
+        const created: Space[] = [];
+        for (const proposal of proposals) {
+            // Tabs may have closed while the preview was open
+            const tabIds = proposal.tabIds.filter(id => this.tabEngine.getTab(id));
+            if (tabIds.length === 0) continue;
+
+            const space = this.stateManager.addSpace(proposal.name, proposal.color, proposal.icon || undefined);
+            created.push(space);
+            for (const tabId of tabIds) {
+                this.doAssign(tabId, {
+                    spaceId: space.id,
+                    explanation: { step: 'discovery', spaceId: space.id, scores: [], autoAssignEnabled },
+                }, true);
+            }
+        }
+        return created;
     }
 
     /** Clean up when a tab is closed. */
     onRemoved(tabId: number): void {
         this.scored.delete(tabId);
+        this.keywordIndex.remove(tabId);
     }
 
     // ============================================================
@@ -118,55 +372,151 @@ export class TabAssigner {
 
     /**
      * Fallback chain:
-     *  1. Scorer (filtered corpus, configurable threshold)
-     *  2. Opener tab's space
-     *  3. Active UI space (if not 'all')
-     *  4. DEFAULT_SPACE_ID
+     *  1. Explicit space rules (highest priority wins)
+     *  2. Scorer (filtered corpus, weighted combined score vs. settings.similarityThreshold)
+     *  3. Opener tab's space
+     *  4. Active UI space (if not 'all')
+     *  5. DEFAULT_SPACE_ID
      */
     private resolveSpace(
         tabId: number,
         url: string,
         title: string,
         openerTabId?: number,
-    ): string {
+        learnedProfiles?: Map<string, LearnedProfile>,
+    ): Resolution {
         const settings = this.stateManager.getSettings();
 
-        // 1. Global master switch
-        if (!settings.autoAssignSpaces) {
-            return this.fallback(openerTabId);
+        // Global master switch
+        if (!settings.autoAssignSpaces) return this.fallbackResolution(openerTabId);
+
+        const analysis = analyzeTab(tabId, url, title, this.analyzeOptions(tabId));
+
+        // 1. Explicit rules
+        const ruleMatch = matchSpaceRules(analysis, this.stateManager.getSpaces());
+        if (ruleMatch) {
+            return {
+                spaceId: ruleMatch.spaceID,
+                rule: ruleMatch.rule,
+                explanation: {
+                    step: 'rule',
+                    spaceId: ruleMatch.spaceID,
+                    scores: [],
+                    autoAssignEnabled: true,
+                    rule: ruleMatch.rule,
+                },
+            };
         }
 
-        const analysis = analyzeTab(tabId, url, title);
-
         // 2. Build corpus — exclude spaces that opted out and the tab being scored
         const corpus = this.buildCorpus(tabId);
-        const rankings = rankSpaces(
-            analysis,
-            corpus,
-            DEFAULT_DOMAIN_THRESHOLD,
-            DEFAULT_JACCARD_THRESHOLD,
-        );
-        const best = rankings[0];
+        const threshold = settings.similarityThreshold;
+        const weights = settings.scoreWeights;
+        const openerSpaceID = openerTabId !== undefined
+            ? this.stateManager.getTabMetadata()[openerTabId]?.spaceId
+            : undefined;
+        const scores = scoreAllSpaces(analysis, corpus, {
+            weights,
+            openerSpaceID,
+            idf: term => this.keywordIndex.idf(term),
+            learnedProfiles: learnedProfiles ?? buildLearnedProfiles(this.stateManager.getLearnedExamples()),
+        });
+        const best = scores.find(s => passesThreshold(s, threshold));
 
         if (best) {
-            return best.spaceID;
+            return {
+                spaceId: best.spaceID,
+                explanation: {
+                    step: 'scorer',
+                    spaceId: best.spaceID,
+                    scores,
+                    threshold,
+                    weights,
+                    autoAssignEnabled: true,
+                    openerTabId,
+                },
+            };
+        }
+
+        // 3-5. Opener / active-space / default fallback
+        const fallback = this.fallback(openerTabId);
+        return {
+            spaceId: fallback.spaceId,
+            explanation: { ...fallback, scores, threshold, weights, autoAssignEnabled: true, openerTabId },
+        };
+    }
+
+    private analyzeOptions(tabId: number): AnalyzeOptions {
+        return {
+            synonyms: this.stateManager.getSettings().keywordSynonyms,
+            pageSignals: this.stateManager.getTabMetadata()[tabId]?.pageSignals,
+        };
+    }
+
+    private fallbackResolution(openerTabId?: number): Resolution {
+        const fallback = this.fallback(openerTabId);
+        return {
+            spaceId: fallback.spaceId,
+            explanation: {
+                ...fallback,
+                scores: [],
+                autoAssignEnabled: this.stateManager.getSettings().autoAssignSpaces,
+                openerTabId,
+            },
+        };
+    }
+
+    /** In suggest mode, rule and scorer matches are offered rather than applied. */
+    private isSuggestionOnly(resolution: Resolution): boolean {
+        const settings = this.stateManager.getSettings();
+        const step = resolution.explanation.step;
+        return settings.autoAssignSpaces
+            && settings.autoAssignMode === 'suggest'
+            && (step === 'rule' || step === 'scorer');
+    }
+
+    private suggest(tabId: number, resolution: Resolution): void {
+        const meta = this.stateManager.getTabMetadata()[tabId];
+        if (meta?.dismissedSuggestion === resolution.spaceId) {
+            this.clearSuggestion(tabId);
+            return;
         }
 
-        // 3-4. Opener / active-space / default fallback
-        return this.fallback(openerTabId);
+        this.stateManager.setTabMetadata(tabId, {
+            suggestion: {
+                spaceId: resolution.spaceId,
+                rule: resolution.rule,
+                explanation: { ...resolution.explanation, timestamp: Date.now() },
+            },
+        });
+        if (meta?.suggestion?.spaceId === resolution.spaceId) return;
+
+        this.tabEngine.updateTabMetadata(tabId, { suggestedSpaceId: resolution.spaceId });
+        broadcastMessage({ type: 'ASSIGNMENT_SUGGESTED', tabId, spaceId: resolution.spaceId });
     }
 
-    private fallback(openerTabId?: number): string {
+    private clearSuggestion(tabId: number): void {
+        if (!this.stateManager.getTabMetadata()[tabId]?.suggestion) return;
+        this.stateManager.setTabMetadata(tabId, { suggestion: undefined });
+        this.tabEngine.updateTabMetadata(tabId, { suggestedSpaceId: undefined });
+
+        const updatedTab = this.tabEngine.getTab(tabId);
+        if (updatedTab) {
+            broadcastMessage({ type: 'TAB_UPDATED', tab: updatedTab });
+        }
+    }
+
+    private fallback(openerTabId?: number): { spaceId: string; step: AssignmentStep } {
         // Opener tab's space
         if (openerTabId !== undefined) {
             const openerMeta = this.stateManager.getTabMetadata()[openerTabId];
-            if (openerMeta?.spaceId) return openerMeta.spaceId;
+            if (openerMeta?.spaceId) return { spaceId: openerMeta.spaceId, step: 'opener' };
         }
         // Active UI space
         if (this.uiActiveSpaceId && this.uiActiveSpaceId !== 'all') {
-            return this.uiActiveSpaceId;
+            return { spaceId: this.uiActiveSpaceId, step: 'active-space' };
         }
-        return DEFAULT_SPACE_ID;
+        return { spaceId: DEFAULT_SPACE_ID, step: 'default' };
     }
 
     private buildCorpus(excludeTabId: number): SpaceCorpus[] {
@@ -182,20 +532,30 @@ export class TabAssigner {
                         domain: metadata[id]?.domain ?? '',
                         subdomains: metadata[id]?.subdomains ?? [],
                         keywords: metadata[id]?.keywords ?? [],
+                        pathSegments: metadata[id]?.pathSegments ?? [],
+                        pathPrefix: metadata[id]?.pathPrefix ?? [],
+                        entities: metadata[id]?.entities ?? [],
                     })),
             }));
     }
 
-    private doAssign(tabId: number, spaceId: string, autoAssigned: boolean): void {
-        const assignedSpaceId = this.stateManager.assignTabToSpace(tabId, spaceId);
-        this.stateManager.setTabMetadata(tabId, { autoAssigned });
-        this.tabEngine.updateTabMetadata(tabId, { spaceId: assignedSpaceId });
+    private doAssign(tabId: number, resolution: Resolution, autoAssigned: boolean): void {
+        const assignedSpaceId = this.stateManager.assignTabToSpace(tabId, resolution.spaceId);
+        // A rule for a space that has since been deleted resolves to the default space — don't keep it
+        const matchedRule = assignedSpaceId === resolution.spaceId ? resolution.rule : undefined;
+        this.stateManager.setTabMetadata(tabId, {
+            autoAssigned,
+            matchedRule,
+            suggestion: undefined,
+            explanation: { ...resolution.explanation, spaceId: assignedSpaceId, timestamp: Date.now() },
+        });
+        this.tabEngine.updateTabMetadata(tabId, { spaceId: assignedSpaceId, matchedRule, suggestedSpaceId: undefined });
 
         const updatedTab = this.tabEngine.getTab(tabId);
         if (updatedTab) {
             broadcastMessage({
                 type: 'TAB_UPDATED',
-                tab: { ...updatedTab, spaceId: assignedSpaceId },
+                tab: { ...updatedTab, spaceId: assignedSpaceId, matchedRule },
             });
         }
     }
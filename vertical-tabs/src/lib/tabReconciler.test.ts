@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { hasFingerprint, reconcileTabs, type LiveTab } from './tabReconciler';
+import type { TabMetadataEntry } from '@/types';
+
+function live(id: number, url: string, extra: Partial<LiveTab> = {}): LiveTab {
+    return { id, url, title: '', windowId: 1, index: 0, ...extra };
+}
+
+describe('reconcileTabs', () => {
+    it('hands entries of closed tabs to restored tabs with the same URL', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            101: { url: 'https://a.test/', windowId: 50, index: 0, spaceId: 'work' },
+            102: { url: 'https://b.test/', windowId: 50, index: 1, spaceId: 'home' },
+        };
+        const result = reconcileTabs(metadata, [
+            live(7, 'https://b.test/', { index: 1 }),
+            live(8, 'https://a.test/', { index: 0 }),
+        ], { afterRestart: true });
+        expect(result.matches).toEqual(expect.arrayContaining([[7, 102], [8, 101]]));
+        expect(result.matches).toHaveLength(2);
+    });
+
+    it('keeps the entry of a tab that navigated while the worker was asleep', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            7: { url: 'https://old.test/', spaceId: 'work', autoAssigned: false, lastActiveAt: 1000 },
+        };
+        expect(reconcileTabs(metadata, [live(7, 'https://new.test/')])).toEqual({ matches: [], stale: [] });
+    });
+
+    it('does not give a live tab another live tab\'s entry without a restart', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            7: { url: 'https://a.test/', spaceId: 'work' },
+        };
+        const result = reconcileTabs(metadata, [live(7, 'https://b.test/'), live(8, 'https://a.test/')]);
+        expect(result).toEqual({ matches: [], stale: [] });
+    });
+
+    it('hands an entry whose id was reused after a restart to the tab it belongs to', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            7: { url: 'https://a.test/', spaceId: 'work', lastActiveAt: 1000 },
+        };
+        const result = reconcileTabs(metadata, [live(7, 'https://b.test/'), live(8, 'https://a.test/')], { afterRestart: true });
+        expect(result).toEqual({ matches: [[8, 7]], stale: [] });
+    });
+
+    it('drops a reused id\'s entry when no restored tab claims it', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            5: { url: 'https://gone.test/', title: 'Gone', spaceId: 'work', index: 3 },
+        };
+        const result = reconcileTabs(metadata, [live(5, 'https://new.test/', { title: 'New' })], { afterRestart: true });
+        expect(result).toEqual({ matches: [], stale: [5] });
+    });
+
+    it('keeps entries this session already wrote during a restore', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            7: { url: 'https://a.test/', spaceId: 'work' },
+        };
+        const result = reconcileTabs(metadata, [live(7, 'https://b.test/'), live(8, 'https://a.test/')], {
+            afterRestart: true,
+            claimedIds: new Set([7]),
+        });
+        expect(result).toEqual({ matches: [], stale: [] });
+    });
+
+    it('keeps several tabs of one URL in their original order', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            1: { url: 'https://a.test/', windowId: 3, index: 0, spaceId: 'first' },
+            2: { url: 'https://a.test/', windowId: 3, index: 1, spaceId: 'second' },
+        };
+        const result = reconcileTabs(metadata, [
+            live(20, 'https://a.test/', { index: 1 }),
+            live(10, 'https://a.test/', { index: 0 }),
+        ], { afterRestart: true });
+        expect(result.matches).toEqual(expect.arrayContaining([[10, 1], [20, 2]]));
+    });
+
+    it('falls back to the same title in the same spot when the URL changed', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            1: { url: 'https://a.test/?session=1', title: 'Inbox', windowId: 3, index: 2 },
+        };
+        const result = reconcileTabs(metadata, [live(9, 'https://a.test/?session=2', { title: 'Inbox', index: 2 })]);
+        expect(result.matches).toEqual([[9, 1]]);
+    });
+
+    it('leaves tabs without a good enough match alone', () => {
+        const metadata: Record<number, TabMetadataEntry> = {
+            1: { url: 'https://a.test/', title: 'A', windowId: 3, index: 0 },
+        };
+        const result = reconcileTabs(metadata, [live(9, 'https://b.test/', { title: 'B', index: 4 })]);
+        expect(result.matches).toEqual([]);
+    });
+});
+
+describe('hasFingerprint', () => {
+    const fingerprint: TabMetadataEntry = { url: 'https://a.test/', title: 'A', windowId: 1, index: 0 };
+
+    it('is true when the entry already holds the fingerprint', () => {
+        expect(hasFingerprint({ ...fingerprint, spaceId: 'work' }, fingerprint)).toBe(true);
+    });
+
+    it('is false for a missing entry or one that moved', () => {
+        expect(hasFingerprint(undefined, fingerprint)).toBe(false);
+        expect(hasFingerprint({ ...fingerprint, index: 3 }, fingerprint)).toBe(false);
+    });
+});
@@ -0,0 +1,128 @@
+// Re-attach persisted tab metadata after a browser restart.
+// Chrome hands out new tab ids when a session is restored, so metadata keyed by the old ids
+// no longer points anywhere — or, since ids start over, at some other tab of the new session.
+// Each entry remembers the tab's URL, title and position; restored tabs are matched back to
+// entries of tabs that are gone and take over their space and history.
+
+import type { TabMetadataEntry } from '@/types';
+
+export interface LiveTab {
+    id: number;
+    url: string;
+    title: string;
+    windowId: number;
+    index: number;
+}
+
+// A pair needs the same URL, or failing that the same title in the same spot
+// (a page that redirected on reload, e.g. to add a session parameter)
+const URL_SCORE = 4;
+const TITLE_SCORE = 2;
+const WINDOW_SCORE = 1;
+const INDEX_SCORE = 1;
+const MIN_SCORE = TITLE_SCORE + WINDOW_SCORE + INDEX_SCORE;
+
+/** The fields reconciliation matches on, as stored on a metadata entry. */
+export function tabFingerprint(tab: chrome.tabs.Tab): TabMetadataEntry {
+    return {
+        url: tab.url || tab.pendingUrl,
+        title: tab.title,
+        windowId: tab.windowId,
+        index: tab.index,
+    };
+}
+
+/** Whether the entry already holds this fingerprint, so writing it again would change nothing. */
+export function hasFingerprint(entry: TabMetadataEntry | undefined, fingerprint: TabMetadataEntry): boolean {
+    return entry !== undefined
+        && entry.url === fingerprint.url
+        && entry.title === fingerprint.title
+        && entry.windowId === fingerprint.windowId
+        && entry.index === fingerprint.index;
+}
+
+// Window ids aren't stable across restarts either, but windows come back in the order they
+// were opened — compare a window's rank among its generation's windows instead of its id
+function windowRanks(windowIds: number[]): Map<number, number> {
+    const sorted = [...new Set(windowIds)].sort((a, b) => a - b);
+    return new Map(sorted.map((id, rank) => [id, rank]));
+}
+
+export interface Reconciliation {
+    /** [newTabId, oldTabId] — the new tab takes over the old tab's entry */
+    matches: [number, number][];
+    /** Live ids whose entry describes some other, closed page and found no new owner */
+    stale: number[];
+}
+
+export interface ReconcileOptions {
+    /**
+     * The browser restarted, so ids are reused: a live id whose entry names another URL may be
+     * an unrelated tab of the new session. Otherwise a live tab's own entry is never given up —
+     * when it names another URL, the tab navigated while the worker was asleep.
+     */
+    afterRestart?: boolean;
+    /** Ids whose entry this session has already written, and so belongs to them */
+    claimedIds?: ReadonlySet<number>;
+}
+
+/**
+ * Match live tabs without up-to-date metadata to entries left behind by tabs that no longer
+ * exist. Each tab and each entry is used at most once.
+ */
+export function reconcileTabs(
+    metadata: Record<number, TabMetadataEntry>,
+    liveTabs: LiveTab[],
+    options: ReconcileOptions = {},
+): Reconciliation {
+    const liveById = new Map(liveTabs.map(tab => [tab.id, tab]));
+
+    const settled = (tab: LiveTab) => {
+        const entry = metadata[tab.id];
+        if (!entry?.url) return false;
+        return !options.afterRestart || options.claimedIds?.has(tab.id) || entry.url === tab.url;
+    };
+    const unmatched = liveTabs.filter(tab => tab.url && !settled(tab));
+    const orphans = Object.entries(metadata)
+        .map(([id, entry]) => [Number(id), entry] as const)
+        .filter(([id, entry]) => {
+            if (!entry.url) return false;
+            const live = liveById.get(id);
+            return !live || !settled(live);
+        });
+    if (unmatched.length === 0) return { matches: [], stale: [] };
+
+    const oldRanks = windowRanks(orphans.map(([, entry]) => entry.windowId ?? -1));
+    const newRanks = windowRanks(unmatched.map(tab => tab.windowId));
+
+    const pairs: { newId: number; oldId: number; score: number; distance: number }[] = [];
+    for (const tab of unmatched) {
+        for (const [oldId, entry] of orphans) {
+            const sameWindow = oldRanks.get(entry.windowId ?? -1) === newRanks.get(tab.windowId);
+            const score = (entry.url === tab.url ? URL_SCORE : 0)
+                + (tab.title && entry.title === tab.title ? TITLE_SCORE : 0)
+                + (sameWindow ? WINDOW_SCORE : 0)
+                + (entry.index === tab.index ? INDEX_SCORE : 0);
+            if (score < MIN_SCORE) continue;
+            pairs.push({ newId: tab.id, oldId, score, distance: Math.abs((entry.index ?? 0) - tab.index) });
+        }
+    }
+
+    // Greedy, best pairs first; among equals the closest position wins, which keeps
+    // several tabs of the same URL in their original order
+    pairs.sort((a, b) => b.score - a.score || a.distance - b.distance);
+    const takenNew = new Set<number>();
+    const takenOld = new Set<number>();
+    const matches: [number, number][] = [];
+    for (const pair of pairs) {
+        if (takenNew.has(pair.newId) || takenOld.has(pair.oldId)) continue;
+        takenNew.add(pair.newId);
+        takenOld.add(pair.oldId);
+        matches.push([pair.newId, pair.oldId]);
+    }
+
+    const stale = unmatched
+        .filter(tab => metadata[tab.id]?.url && !takenNew.has(tab.id) && !takenOld.has(tab.id))
+        .map(tab => tab.id);
+    return { matches, stale };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { tokenizeTitle } from './tokenizer';
+
+describe('tokenizeTitle', () => {
+    it.each([
+        ['War and Peace', ['war', 'peace']],
+        ['Die Hard', ['die', 'hard']],
+        ['Father and Son', ['father', 'son']],
+        ['Sin City review', ['sin', 'city', 'review']],
+        ['The Era of Big Data', ['era', 'big', 'data']],
+    ])('keeps other languages\' stop words in the English title %s', (title, expected) => {
+        expect(tokenizeTitle(title)).toEqual(expected);
+    });
+
+    it.each([
+        ['Wie man mit der Bahn fährt', ['man', 'bahn', 'fahrt']],
+        ['Cómo hacer pan sin gluten', ['hacer', 'pan', 'gluten']],
+        ['Le guide de son premier voyage', ['guide', 'premier', 'voyage']],
+    ])('drops the stop words of a title written in that language: %s', (title, expected) => {
+        expect(tokenizeTitle(title)).toEqual(expected);
+    });
+
+    it('always drops stop words of languages in a script of their own', () => {
+        expect(tokenizeTitle('Как это работает')).toEqual(['работает']);
+    });
+
+    it('folds accents and drops repeats', () => {
+        expect(tokenizeTitle('Café — café menu')).toEqual(['cafe', 'menu']);
+    });
+});
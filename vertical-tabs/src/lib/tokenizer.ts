@@ -0,0 +1,147 @@
+// Unicode-aware title tokenization.
+// Words come from Intl.Segmenter when the runtime has it, accents are folded away,
+// and Chinese/Japanese (written without spaces) are indexed as overlapping bigrams.
+
+import { STOP_WORDS_BY_LANGUAGE } from './stopWords';
+
+// Han, Hiragana, Katakana and the katakana long-vowel mark
+const CJK_RUN = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+)/u;
+const HAN = /\p{Script=Han}/u;
+
+// NFKD would split these into pieces (kana voicing marks, Hangul jamo) rather than strip accents
+const NO_FOLD = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// Fallback word boundary when Intl.Segmenter is missing
+const NON_WORD = /[^\p{L}\p{N}\p{M}'’]+/u;
+
+// Intl.Segmenter isn't in the ES2020 lib we compile against — describe just what we use
+interface WordSegmenter {
+    segment(input: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+type WordSegmenterConstructor = new (locales?: string, options?: { granularity: 'word' }) => WordSegmenter;
+
+const SegmenterImpl = (Intl as unknown as { Segmenter?: WordSegmenterConstructor }).Segmenter;
+let segmenter: WordSegmenter | null = null;
+
+// Languages written in Latin script besides English, whose stop words are real English words
+// often enough that they only apply to titles in that language
+const LATIN_LANGUAGES = ['de', 'fr', 'es', 'it', 'pt', 'nl'];
+// A title counts as in one of those once it has this many of its stop words, and more of them
+// than English ones
+const MIN_LANGUAGE_HITS = 2;
+
+interface StopWordLists {
+    /** English plus every list in a script of its own */
+    always: Set<string>;
+    /** Each Latin-script language's words that aren't English stop words too */
+    byLanguage: Map<string, Set<string>>;
+    /** English stop words no other Latin-script language has */
+    englishOnly: Set<string>;
+}
+
+let stopWords: StopWordLists | null = null;
+
+/** Strip accents from alphabetic text ("Café" → "Cafe"); CJK and Hangul are left intact. */
+export function foldAccents(text: string): string {
+    if (NO_FOLD.test(text)) return text;
+    return text.normalize('NFKD').replace(/\p{M}/gu, '');
+}
+
+function getStopWords(): StopWordLists {
+    if (!stopWords) {
+        const fold = (words: string[]) => words.map(word => foldAccents(word.normalize('NFKC').toLowerCase()));
+        const always = new Set<string>();
+        const byLanguage = new Map<string, Set<string>>();
+        for (const [language, words] of Object.entries(STOP_WORDS_BY_LANGUAGE)) {
+            if (!LATIN_LANGUAGES.includes(language)) {
+                for (const word of fold(words)) always.add(word);
+            }
+        }
+        for (const language of LATIN_LANGUAGES) {
+            byLanguage.set(language, new Set(fold(STOP_WORDS_BY_LANGUAGE[language] ?? []).filter(word => !always.has(word))));
+        }
+        const latin = new Set(LATIN_LANGUAGES.flatMap(language => fold(STOP_WORDS_BY_LANGUAGE[language] ?? [])));
+        const englishOnly = new Set(fold(STOP_WORDS_BY_LANGUAGE.en ?? []).filter(word => !latin.has(word)));
+        stopWords = { always, byLanguage, englishOnly };
+    }
+    return stopWords;
+}
+
+// The stop words of the Latin-script language the title is most clearly written in, if any —
+// "War and Peace" has one German stop word, "Wie man mit der Bahn fährt" has three
+function languageStopWords(tokens: string[], lists: StopWordLists): Set<string> | null {
+    const hitsIn = (words: Set<string>) => new Set(tokens.filter(tok => words.has(tok))).size;
+    let best: Set<string> | null = null;
+    let bestHits = Math.max(MIN_LANGUAGE_HITS - 1, hitsIn(lists.englishOnly));
+    for (const words of lists.byLanguage.values()) {
+        const hits = hitsIn(words);
+        if (hits > bestHits) {
+            best = words;
+            bestHits = hits;
+        }
+    }
+    return best;
+}
+
+function splitWords(text: string): string[] {
+    if (!SegmenterImpl) return text.split(NON_WORD);
+    segmenter ??= new SegmenterImpl(undefined, { granularity: 'word' });
+    const words: string[] = [];
+    for (const { segment, isWordLike } of segmenter.segment(text)) {
+        if (isWordLike) words.push(segment);
+    }
+    return words;
+}
+
+function cjkTokens(run: string): string[] {
+    const chars = Array.from(run);
+    // A lone Han character is usually a word on its own; lone kana is grammar
+    if (chars.length === 1) return HAN.test(run) ? [run] : [];
+    const bigrams: string[] = [];
+    for (let i = 0; i < chars.length - 1; i++) {
+        bigrams.push(chars[i] + chars[i + 1]);
+    }
+    return bigrams;
+}
+
+function alphabeticToken(piece: string): string | null {
+    const token = foldAccents(piece)
+        .replace(/’/g, "'")
+        .replace(/[^\p{L}\p{N}']/gu, '')
+        .replace(/^'+|'+$/g, '');
+    return token.length >= 2 ? token : null;
+}
+
+/**
+ * Lowercased, accent-folded keywords from a page title, stop words removed,
+ * first occurrence kept.
+ */
+export function tokenizeTitle(title: string): string[] {
+    if (!title) return [];
+
+    // NFKC first so full-width Latin ("ＧｉｔＨｕｂ") and half-width kana line up with their usual forms
+    const text = title.normalize('NFKC').toLowerCase();
+    const tokens: string[] = [];
+
+    for (const word of splitWords(text)) {
+        // Split mixed segments like "githubの使い方" into alternating non-CJK / CJK pieces
+        word.split(CJK_RUN).forEach((piece, index) => {
+            if (!piece) return;
+            if (index % 2 === 1) {
+                tokens.push(...cjkTokens(piece));
+            } else {
+                const token = alphabeticToken(piece);
+                if (token) tokens.push(token);
+            }
+        });
+    }
+
+    const lists = getStopWords();
+    const language = languageStopWords(tokens, lists);
+    const seen = new Set<string>();
+    return tokens.filter(tok => {
+        if (lists.always.has(tok) || language?.has(tok) || seen.has(tok)) return false;
+        seen.add(tok);
+        return true;
+    });
+}
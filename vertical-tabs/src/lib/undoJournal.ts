@@ -0,0 +1,326 @@
+// Undo/redo for destructive side-panel operations.
+// Each entry records enough to invert itself: closed tabs come back through chrome.sessions,
+// deleted spaces are recreated with their rules and tabs, and moves are played backwards.
+// The journal lives in chrome.storage.session so it survives the service worker being suspended.
+
+import { broadcastMessage } from '@/lib/messages';
+import type { StateManager } from '@/lib/storage';
+import type { AssignmentExplanation, ExtendedTab, HistoryEvent, HistoryState, LearnedExample, Space, TabMetadataEntry } from '@/types';
+
+// TabEngine only exposes what we need — avoid a circular import by typing it locally.
+interface TabEngineLike {
+    getTab(id: number): ExtendedTab | undefined;
+    updateTabMetadata(id: number, data: Record<string, unknown>): void;
+}
+
+const DEFAULT_SPACE_ID = 'default';
+
+const SESSION_KEY = 'undoJournal';
+
+const MAX_HISTORY = 50;
+
+interface ClosedTab {
+    /** Id the tab had when closed — replaced with the new id once it's reopened */
+    tabId: number;
+    url: string;
+    title?: string;
+    windowId: number;
+    index: number;
+    pinned: boolean;
+    spaceId: string;
+    autoAssigned?: boolean;
+}
+
+interface TabMove {
+    tabId: number;
+    fromSpaceId: string;
+    toSpaceId: string;
+    /** autoAssigned before and after the move, so undo also restores "placed by hand" */
+    fromAutoAssigned?: boolean;
+    toAutoAssigned?: boolean;
+    /** Why the tab was where it was, before and after */
+    fromExplanation?: AssignmentExplanation;
+    toExplanation?: AssignmentExplanation;
+    /** What the scorer learned from a move made by hand — unlearned on undo */
+    learnedExample?: LearnedExample;
+}
+
+export type JournalEntry =
+    | { kind: 'close-tabs'; label: string; tabs: ClosedTab[] }
+    | { kind: 'delete-space'; label: string; space: Space; index: number; learnedExamples: LearnedExample[] }
+    | { kind: 'move-tabs'; label: string; moves: TabMove[] };
+
+function tabsLabel(count: number): string {
+    return `${count} tab${count !== 1 ? 's' : ''}`;
+}
+
+export class UndoJournal {
+    private undoStack: JournalEntry[] = [];
+    private redoStack: JournalEntry[] = [];
+
+    constructor(
+        private readonly stateManager: StateManager,
+        private readonly tabEngine: TabEngineLike,
+    ) {}
+
+    async load(): Promise<void> {
+        try {
+            const result = await chrome.storage.session.get(SESSION_KEY);
+            const saved = result[SESSION_KEY] as { undo: JournalEntry[]; redo: JournalEntry[] } | undefined;
+            if (saved) {
+                this.undoStack = saved.undo ?? [];
+                this.redoStack = saved.redo ?? [];
+            }
+        } catch (err) {
+            console.warn('[UndoJournal] Failed to load history:', err);
+        }
+    }
+
+    getState(): HistoryState {
+        return {
+            undoLabel: this.undoStack[this.undoStack.length - 1]?.label,
+            redoLabel: this.redoStack[this.redoStack.length - 1]?.label,
+        };
+    }
+
+    // ============================================================
+    // Capturing (call before the destructive action runs)
+    // ============================================================
+
+    /** Snapshot tabs about to be closed; null when none of them can be brought back. */
+    captureClose(tabIds: number[]): JournalEntry | null {
+        const tabs = this.closedTabs(tabIds);
+        if (tabs.length === 0) return null;
+        const label = tabs.length === 1
+            ? `Close “${tabs[0].title || tabs[0].url}”`
+            : `Close ${tabsLabel(tabs.length)}`;
+        return { kind: 'close-tabs', label, tabs };
+    }
+
+    /** Snapshot a space about to be deleted, along with what was learned for it. */
+    captureSpaceDeletion(spaceId: string): JournalEntry | null {
+        const spaces = this.stateManager.getSpaces();
+        const index = spaces.findIndex(space => space.id === spaceId);
+        if (index === -1 || spaceId === DEFAULT_SPACE_ID) return null;
+        const space = spaces[index];
+        return {
+            kind: 'delete-space',
+            label: `Delete space “${space.name}”`,
+            space: { ...space, tabIds: [...space.tabIds], rules: [...space.rules] },
+            index,
+            learnedExamples: this.stateManager.getLearnedExamples().filter(e => e.spaceId === spaceId),
+        };
+    }
+
+    /**
+     * Describe tab moves once they're made; `before` is the metadata as it was before the tabs moved.
+     */
+    captureMoves(
+        label: string,
+        changes: { tabId: number; toSpaceId: string; learnedExample?: LearnedExample }[],
+        before: Record<number, TabMetadataEntry>,
+        toAutoAssigned: boolean,
+    ): JournalEntry | null {
+        const metadata = this.stateManager.getTabMetadata();
+        const moves = changes
+            .map(change => ({
+                tabId: change.tabId,
+                fromSpaceId: before[change.tabId]?.spaceId ?? DEFAULT_SPACE_ID,
+                toSpaceId: change.toSpaceId,
+                fromAutoAssigned: before[change.tabId]?.autoAssigned,
+                toAutoAssigned,
+                fromExplanation: before[change.tabId]?.explanation,
+                toExplanation: metadata[change.tabId]?.explanation,
+                learnedExample: change.learnedExample,
+            }))
+            .filter(move => move.fromSpaceId !== move.toSpaceId);
+        return moves.length > 0 ? { kind: 'move-tabs', label, moves } : null;
+    }
+
+    // ============================================================
+    // History
+    // ============================================================
+
+    /** Push an entry once its action succeeded. A new action clears the redo stack. */
+    record(entry: JournalEntry | null): void {
+        if (!entry) return;
+        this.undoStack = [...this.undoStack, entry].slice(-MAX_HISTORY);
+        this.redoStack = [];
+        this.changed({ kind: 'recorded', label: entry.label });
+    }
+
+    async undo(): Promise<HistoryState> {
+        const entry = this.undoStack.pop();
+        if (!entry) return this.getState();
+        try {
+            await this.revert(entry);
+            this.redoStack.push(entry);
+            this.changed({ kind: 'undone', label: entry.label });
+        } catch (err) {
+            // Drop it — whatever made it fail (closed window, deleted space) won't go away
+            console.warn(`[UndoJournal] Undo of "${entry.label}" failed:`, err);
+            this.changed();
+        }
+        return this.getState();
+    }
+
+    async redo(): Promise<HistoryState> {
+        const entry = this.redoStack.pop();
+        if (!entry) return this.getState();
+        try {
+            await this.reapply(entry);
+            this.undoStack.push(entry);
+            this.changed({ kind: 'redone', label: entry.label });
+        } catch (err) {
+            console.warn(`[UndoJournal] Redo of "${entry.label}" failed:`, err);
+            this.changed();
+        }
+        return this.getState();
+    }
+
+    // ============================================================
+    // Private helpers
+    // ============================================================
+
+    private async revert(entry: JournalEntry): Promise<void> {
+        switch (entry.kind) {
+            case 'close-tabs': {
+                const recent = await chrome.sessions.getRecentlyClosed({
+                    maxResults: chrome.sessions.MAX_SESSION_RESULTS,
+                });
+                // Reopen left to right so restored indexes line up
+                const ordered = [...entry.tabs].sort((a, b) => a.index - b.index);
+                for (const closed of ordered) {
+                    const tabId = await this.reopen(closed, recent);
+                    if (tabId === undefined) continue;
+                    closed.tabId = tabId;
+                    this.moveTab(tabId, closed.spaceId, { autoAssigned: closed.autoAssigned });
+                }
+                break;
+            }
+
+            case 'delete-space': {
+                const space = this.stateManager.restoreSpace(entry.space, entry.index, entry.learnedExamples);
+                const metadata = this.stateManager.getTabMetadata();
+                for (const tabId of entry.space.tabIds) {
+                    // Only tabs still open and still sitting where the deletion left them
+                    if (!this.tabEngine.getTab(tabId)) continue;
+                    if ((metadata[tabId]?.spaceId ?? DEFAULT_SPACE_ID) !== DEFAULT_SPACE_ID) continue;
+                    this.moveTab(tabId, space.id);
+                }
+                break;
+            }
+
+            case 'move-tabs': {
+                const metadata = this.stateManager.getTabMetadata();
+                for (const move of entry.moves) {
+                    if (!this.tabEngine.getTab(move.tabId) || metadata[move.tabId]?.spaceId !== move.toSpaceId) continue;
+                    this.moveTab(move.tabId, move.fromSpaceId, {
+                        autoAssigned: move.fromAutoAssigned,
+                        explanation: move.fromExplanation,
+                    });
+                    if (move.learnedExample) this.stateManager.removeLearnedExample(move.learnedExample);
+                }
+                break;
+            }
+        }
+    }
+
+    private async reapply(entry: JournalEntry): Promise<void> {
+        switch (entry.kind) {
+            case 'close-tabs': {
+                const tabs = this.closedTabs(entry.tabs.map(tab => tab.tabId));
+                if (tabs.length === 0) return;
+                // Refresh the snapshot — the reopened tabs may have moved since
+                entry.tabs = tabs;
+                await chrome.tabs.remove(tabs.map(tab => tab.tabId));
+                for (const tab of tabs) this.stateManager.removeTabMetadata(tab.tabId);
+                break;
+            }
+
+            case 'delete-space': {
+                const snapshot = this.captureSpaceDeletion(entry.space.id);
+                if (!snapshot || snapshot.kind !== 'delete-space') return;
+                entry.space = snapshot.space;
+                entry.index = snapshot.index;
+                entry.learnedExamples = snapshot.learnedExamples;
+                for (const tabId of this.stateManager.removeSpace(entry.space.id)) {
+                    this.syncTab(tabId, DEFAULT_SPACE_ID);
+                }
+                break;
+            }
+
+            case 'move-tabs': {
+                for (const move of entry.moves) {
+                    if (!this.tabEngine.getTab(move.tabId)) continue;
+                    this.moveTab(move.tabId, move.toSpaceId, {
+                        autoAssigned: move.toAutoAssigned,
+                        explanation: move.toExplanation,
+                    });
+                    if (move.learnedExample) this.stateManager.addLearnedExample(move.learnedExample);
+                }
+                break;
+            }
+        }
+    }
+
+    private closedTabs(tabIds: number[]): ClosedTab[] {
+        const metadata = this.stateManager.getTabMetadata();
+        const tabs: ClosedTab[] = [];
+        for (const tabId of tabIds) {
+            const tab = this.tabEngine.getTab(tabId);
+            if (!tab?.url) continue;
+            tabs.push({
+                tabId,
+                url: tab.url,
+                title: tab.title,
+                windowId: tab.windowId,
+                index: tab.index,
+                pinned: tab.pinned,
+                spaceId: metadata[tabId]?.spaceId ?? DEFAULT_SPACE_ID,
+                autoAssigned: metadata[tabId]?.autoAssigned,
+            });
+        }
+        return tabs;
+    }
+
+    // Prefer the browser's own session restore (keeps history and form state);
+    // fall back to a fresh tab when the entry has aged out of the recently-closed list
+    private async reopen(closed: ClosedTab, recent: chrome.sessions.Session[]): Promise<number | undefined> {
+        const match = recent.findIndex(session => session.tab?.url === closed.url && session.tab.sessionId);
+        if (match !== -1) {
+            const [session] = recent.splice(match, 1);
+            const restored = await chrome.sessions.restore(session.tab!.sessionId);
+            if (restored?.tab?.id !== undefined) return restored.tab.id;
+        }
+
+        const options = { url: closed.url, index: closed.index, pinned: closed.pinned, active: false };
+        try {
+            return (await chrome.tabs.create({ ...options, windowId: closed.windowId })).id;
+        } catch {
+            // The original window is gone too
+            return (await chrome.tabs.create({ url: closed.url, pinned: closed.pinned, active: false })).id;
+        }
+    }
+
+    private moveTab(tabId: number, spaceId: string, patch?: TabMetadataEntry): void {
+        const assignedSpaceId = this.stateManager.assignTabToSpace(tabId, spaceId);
+        if (patch) this.stateManager.setTabMetadata(tabId, patch);
+        this.syncTab(tabId, assignedSpaceId);
+    }
+
+    private syncTab(tabId: number, spaceId: string): void {
+        this.tabEngine.updateTabMetadata(tabId, { spaceId });
+        const updatedTab = this.tabEngine.getTab(tabId);
+        if (updatedTab) {
+            broadcastMessage({ type: 'TAB_UPDATED', tab: { ...updatedTab, spaceId } });
+        }
+    }
+
+    private changed(event?: HistoryEvent): void {
+        chrome.storage.session
+            .set({ [SESSION_KEY]: { undo: this.undoStack, redo: this.redoStack } })
+            .catch(err => console.warn('[UndoJournal] Failed to save history:', err));
+        broadcastMessage({ type: 'HISTORY_UPDATED', history: this.getState(), event });
+    }
+}
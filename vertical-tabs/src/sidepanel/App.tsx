@@ -1,9 +1,18 @@
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import type React from 'react';
-import type { ExtendedTab, Space, SavedItem } from '@/types';
+import type { AssignmentExplanation, ExtendedTab, HistoryEvent, ReclassifyScope, Space, SavedItem, SpaceRule } from '@/types';
 import { sendMessage, onMessage } from '@/lib/messages';
+import { validateRule } from '@/lib/spaceRules';
+import { SPACE_COLORS } from '@/lib/spaceColors';
 import Tab from './Tab';
 import ContextMenu from './ContextMenu';
+import SpaceRulesEditor from './SpaceRulesEditor';
+import AssignmentExplanationModal from './AssignmentExplanationModal';
+import SettingsModal from './SettingsModal';
+import ReclassifyModal from './ReclassifyModal';
+import DiscoverSpacesModal from './DiscoverSpacesModal';
+import ImportExportModal from './ImportExportModal';
+import UndoToast from './UndoToast';
 
 const DEFAULT_SPACE_ID = 'default';
 const ALL_TABS_ID = 'all';
@@ -26,14 +35,6 @@ function formatInactiveAge(hours: number): string {
   return `${days}d`;
 }
 
-const SPACE_COLORS = [
-  '#FFB3BA', '#FFDFBA', '#FFFFBA', '#BAFFC9', '#BAE1FF',
-  '#E0BBE4', '#957DAD', '#D291BC', '#FEC8D8', '#FFDFD3',
-  '#B5EAD7', '#C7CEEA', '#A8E6CF', '#DCEDC1', '#FFD3B6',
-  '#FFAAA5', '#FF8B94', '#a8dadc', '#457b9d', '#e9c46a',
-  '#2a9d8f', '#e76f51', '#f4a261', '#9b5de5', '#00bbf9',
-];
-
 const BASE_BG = '#1a1a1a';
 
 function isLightColor(hex: string): boolean {
@@ -121,10 +122,11 @@ export default function App() {
   const [isLoading, setIsLoading] = useState(true);
   const [isClosing, setIsClosing] = useState(false);
   const [spaceModal, setSpaceModal] = useState<{ mode: 'create' | 'edit'; spaceId?: string } | null>(null);
-  const [spaceForm, setSpaceForm] = useState<{ name: string; color: string; icon: string }>({
+  const [spaceForm, setSpaceForm] = useState<{ name: string; color: string; icon: string; rules: SpaceRule[] }>({
     name: '',
     color: SPACE_COLORS[0],
     icon: '',
+    rules: [],
   });
   const [errorMessage, setErrorMessage] = useState<{ text: string; x: number; y: number } | null>(null);
   const [contextMenu, setContextMenu] = useState<{
@@ -146,6 +148,16 @@ export default function App() {
   const emojiPickerRef = useRef<HTMLDivElement>(null);
   const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
   const [savedItemsModalOpen, setSavedItemsModalOpen] = useState(false);
+  const [settingsModalOpen, setSettingsModalOpen] = useState(false);
+  const [explanationModal, setExplanationModal] = useState<{
+    tab: ExtendedTab;
+    explanation: AssignmentExplanation | null;
+  } | null>(null);
+  const [reclassifyScope, setReclassifyScope] = useState<ReclassifyScope | null>(null);
+  const [restoringSpaceIds, setRestoringSpaceIds] = useState<Set<string>>(() => new Set());
+  const [discoverModalOpen, setDiscoverModalOpen] = useState(false);
+  const [importExportModalOpen, setImportExportModalOpen] = useState(false);
+  const [historyEvent, setHistoryEvent] = useState<HistoryEvent | null>(null);
 
   const emojiPickerOpenRef = useRef(false);
   emojiPickerOpenRef.current = emojiPickerOpen;
@@ -279,6 +291,18 @@ export default function App() {
           break;
         }
 
+        case 'ASSIGNMENT_SUGGESTED': {
+          setTabs(prev =>
+            prev.map(t => t.id === message.tabId ? { ...t, suggestedSpaceId: message.spaceId } : t)
+          );
+          break;
+        }
+
+        case 'HISTORY_UPDATED': {
+          if (message.event) setHistoryEvent(message.event);
+          break;
+        }
+
         case 'SIDE_PANEL_CLOSING': {
           setIsClosing(true);
           break;
@@ -296,6 +320,36 @@ export default function App() {
     return unsubscribe;
   }, [currentWindowId]);
 
+  const handleUndo = useCallback(() => {
+    sendMessage({ type: 'UNDO' }).catch(console.error);
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    sendMessage({ type: 'REDO' }).catch(console.error);
+  }, []);
+
+  const handleDismissHistoryEvent = useCallback(() => setHistoryEvent(null), []);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes — text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
   useEffect(() => {
     if (activeSpaceId === ALL_TABS_ID) return;
     if (!spaces.some(space => space.id === activeSpaceId)) {
@@ -340,6 +394,14 @@ export default function App() {
     sendMessage({ type: 'CLOSE_TAB', tabId });
   }, []);
 
+  const handleAcceptSuggestion = useCallback((tabId: number) => {
+    sendMessage({ type: 'ACCEPT_SUGGESTION', tabId }).catch(console.error);
+  }, []);
+
+  const handleDismissSuggestion = useCallback((tabId: number) => {
+    sendMessage({ type: 'DISMISS_SUGGESTION', tabId }).catch(console.error);
+  }, []);
+
   const handleContextMenu = useCallback((e: React.MouseEvent, tab: ExtendedTab) => {
     e.preventDefault();
     e.stopPropagation();
@@ -398,6 +460,21 @@ export default function App() {
     }
   }, [contextMenu]);
 
+  const handleExplainAssignment = useCallback(async () => {
+    if (!contextMenu?.tab.id) return;
+    const tab = contextMenu.tab;
+    setContextMenu(null);
+    try {
+      const res = await sendMessage<{ explanation: AssignmentExplanation | null }>({
+        type: 'GET_ASSIGNMENT_EXPLANATION',
+        tabId: tab.id!,
+      });
+      setExplanationModal({ tab, explanation: res?.explanation ?? null });
+    } catch (error) {
+      console.error('[SidePanel] Failed to load assignment explanation:', error);
+    }
+  }, [contextMenu]);
+
   const handleTogglePin = useCallback(() => {
     if (!contextMenu?.tab) return;
 
@@ -494,7 +571,7 @@ export default function App() {
   }, []);
 
   const openCreateSpaceModal = useCallback(() => {
-    setSpaceForm({ name: '', color: SPACE_COLORS[0], icon: '' });
+    setSpaceForm({ name: '', color: SPACE_COLORS[0], icon: '', rules: [] });
     setSpaceModal({ mode: 'create' });
   }, []);
 
@@ -502,7 +579,7 @@ export default function App() {
     const space = spaces.find(s => s.id === spaceId);
     if (!space) return;
     const color = SPACE_COLORS.includes(space.color) ? space.color : SPACE_COLORS[0];
-    setSpaceForm({ name: space.name, color, icon: space.icon ?? '' });
+    setSpaceForm({ name: space.name, color, icon: space.icon ?? '', rules: space.rules ?? [] });
     setSpaceModal({ mode: 'edit', spaceId });
   }, [spaces]);
 
@@ -662,8 +739,17 @@ export default function App() {
     openEditSpaceModal(spaceId);
   }, [openEditSpaceModal]);
 
-  const handleSpaceSave = useCallback(async () => {
-    if (!spaceForm.name.trim()) return;
+  const spaceFormHasInvalidRule = spaceForm.rules.some(rule => rule.pattern.trim() && validateRule(rule));
+
+  // Write the form to the space; false when it can't be saved as it stands
+  const saveSpaceForm = useCallback(async (): Promise<boolean> => {
+    if (!spaceForm.name.trim()) return false;
+    if (spaceFormHasInvalidRule) return false;
+
+    // Blank rows are treated as unfinished drafts and dropped
+    const rules = spaceForm.rules
+      .filter(rule => rule.pattern.trim())
+      .map(rule => ({ ...rule, pattern: rule.pattern.trim() }));
 
     if (spaceModal?.mode === 'create') {
       await sendMessage({
@@ -671,6 +757,7 @@ export default function App() {
         name: spaceForm.name.trim(),
         color: spaceForm.color,
         icon: spaceForm.icon.trim() || undefined,
+        rules,
       });
     }
 
@@ -682,12 +769,24 @@ export default function App() {
           name: spaceForm.name.trim(),
           color: spaceForm.color,
           icon: spaceForm.icon.trim() || undefined,
+          rules,
         },
       });
     }
+    return true;
+  }, [spaceForm, spaceModal, spaceFormHasInvalidRule]);
+
+  const handleSpaceSave = useCallback(async () => {
+    if (await saveSpaceForm()) setSpaceModal(null);
+  }, [saveSpaceForm]);
 
+  // The preview runs against the saved rules, so the edits in the form go in first
+  const handleSpaceResort = useCallback(async () => {
+    if (spaceModal?.mode !== 'edit' || !spaceModal.spaceId) return;
+    if (!(await saveSpaceForm())) return;
+    setReclassifyScope({ kind: 'space', spaceId: spaceModal.spaceId });
     setSpaceModal(null);
-  }, [spaceForm, spaceModal]);
+  }, [spaceModal, saveSpaceForm]);
 
   const handleSpaceDelete = useCallback(async () => {
     if (spaceModal?.mode !== 'edit' || !spaceModal.spaceId) return;
@@ -697,6 +796,26 @@ export default function App() {
     setActiveSpaceId(DEFAULT_SPACE_ID);
   }, [spaceModal]);
 
+  // Edits in the form are saved first rather than lost when the modal closes
+  const handleSpaceArchive = useCallback(async () => {
+    if (spaceModal?.mode !== 'edit' || !spaceModal.spaceId) return;
+    if (!(await saveSpaceForm())) return;
+    await sendMessage({ type: 'ARCHIVE_SPACE', spaceId: spaceModal.spaceId });
+    setSpaceModal(null);
+  }, [spaceModal, saveSpaceForm]);
+
+  // A second click before the archive clears would open the tabs in another window
+  const handleSpaceRestore = useCallback((spaceId: string) => {
+    setRestoringSpaceIds(prev => new Set(prev).add(spaceId));
+    sendMessage({ type: 'RESTORE_SPACE', spaceId })
+      .catch(console.error)
+      .finally(() => setRestoringSpaceIds(prev => {
+        const next = new Set(prev);
+        next.delete(spaceId);
+        return next;
+      }));
+  }, []);
+
   const handleSpaceDragOver = useCallback((spaceId: string) => (e: React.DragEvent) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
@@ -1079,6 +1198,7 @@ export default function App() {
               .filter(group => !dismissedStaleGroupKeys.has(group.key));
             const stalePromptIndex = Math.min(stalePromptIndexBySpace[spaceId] ?? 0, Math.max(0, staleGroups.length - 1));
             const isActive = spaceId === activeSpaceId;
+            const archive = spaces.find(space => space.id === spaceId)?.archive;
             return (
               <div
                 key={spaceId}
@@ -1094,6 +1214,22 @@ export default function App() {
                 }}
               >
                 <div style={{ padding: '8px 0', boxSizing: 'border-box' }}>
+                  {archive && archive.tabs.length > 0 && (
+                    <div className="space-archive" title={`Archived ${new Date(archive.archivedAt).toLocaleString()}`}>
+                      <span className="space-archive__label">
+                        {archive.tabs.length} archived tab{archive.tabs.length !== 1 ? 's' : ''}
+                      </span>
+                      <button
+                        type="button"
+                        className="space-archive__restore"
+                        onClick={() => handleSpaceRestore(spaceId)}
+                        disabled={restoringSpaceIds.has(spaceId)}
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  )}
+
                   {staleGroups.length > 0 && (
                     <div className="stale-prompts">
                       {staleGroups.length > 1 && (
@@ -1309,6 +1445,9 @@ export default function App() {
                         searchHighlightQuery={searchQuery || undefined}
                         variant="default"
                         fullWidth
+                        suggestedSpace={tab.suggestedSpaceId ? spaces.find(s => s.id === tab.suggestedSpaceId) : undefined}
+                        onAcceptSuggestion={() => tab.id && handleAcceptSuggestion(tab.id)}
+                        onDismissSuggestion={() => tab.id && handleDismissSuggestion(tab.id)}
                         onClick={() => handleTabClick(tab)}
                         onClose={(e) => tab.id && handleCloseTab(e, tab.id)}
                         onContextMenu={(e) => handleContextMenu(e, tab)}
@@ -1401,7 +1540,22 @@ export default function App() {
         <div style={{ fontSize: '11px', color: '#888' }}>
           {tabs.length} tab{tabs.length !== 1 ? 's' : ''} open
         </div>
-        <div style={{ width: '24px' }} />
+        <button
+          type="button"
+          onClick={() => setSettingsModalOpen(true)}
+          style={{
+            background: 'none', border: 'none', cursor: 'pointer', color: '#888',
+            display: 'flex', alignItems: 'center', padding: '4px', borderRadius: '4px'
+          }}
+          title="Settings"
+          onMouseEnter={(e) => { e.currentTarget.style.color = '#e5e5e5'; e.currentTarget.style.backgroundColor = 'rgba(255, 255, 255, 0.1)'; }}
+          onMouseLeave={(e) => { e.currentTarget.style.color = '#888'; e.currentTarget.style.backgroundColor = 'transparent'; }}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="12" cy="12" r="3"></circle>
+            <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09a1.65 1.65 0 0 0-1-1.51 1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09a1.65 1.65 0 0 0 1.51-1 1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"></path>
+          </svg>
+        </button>
       </div>
 
       {/* Spaces bar */}
@@ -1453,6 +1607,15 @@ export default function App() {
           >
             +
           </button>
+          <button
+            type="button"
+            className="space-pill-add"
+            onClick={() => setDiscoverModalOpen(true)}
+            aria-label="Suggest spaces"
+            title="Suggest spaces from open tabs"
+          >
+            ✨
+          </button>
         </div>
       </div>
 
@@ -1550,6 +1713,15 @@ export default function App() {
               )}
             </div>
 
+            <div className="space-modal__field">
+              <label className="space-modal__label">Rules</label>
+              <SpaceRulesEditor
+                rules={spaceForm.rules}
+                tabs={tabs}
+                onChange={(rules) => setSpaceForm(prev => ({ ...prev, rules }))}
+              />
+            </div>
+
             <div className="space-modal__actions">
               {spaceModal.mode === 'edit' && spaceModal.spaceId !== DEFAULT_SPACE_ID && (
                 <button
@@ -1560,6 +1732,29 @@ export default function App() {
                   Delete
                 </button>
               )}
+              {spaceModal.mode === 'edit' && spaceModal.spaceId !== DEFAULT_SPACE_ID
+                && tabs.some(tab => (tab.spaceId ?? DEFAULT_SPACE_ID) === spaceModal.spaceId) && (
+                <button
+                  type="button"
+                  className="space-modal__btn space-modal__btn--secondary"
+                  onClick={() => handleSpaceArchive().catch(console.error)}
+                  disabled={spaceFormHasInvalidRule}
+                  title="Save this space's tabs and close them — restore them later in one window"
+                >
+                  Archive
+                </button>
+              )}
+              {spaceModal.mode === 'edit' && spaceModal.spaceId && (
+                <button
+                  type="button"
+                  className="space-modal__btn space-modal__btn--secondary"
+                  onClick={() => handleSpaceResort().catch(console.error)}
+                  disabled={spaceFormHasInvalidRule}
+                  title="Save, then check open tabs against this space's rules"
+                >
+                  Re-sort…
+                </button>
+              )}
               <button
                 type="button"
                 className="space-modal__btn space-modal__btn--secondary"
@@ -1571,6 +1766,7 @@ export default function App() {
                 type="button"
                 className="space-modal__btn space-modal__btn--primary"
                 onClick={handleSpaceSave}
+                disabled={spaceFormHasInvalidRule}
               >
                 Save
               </button>
@@ -1620,6 +1816,64 @@ export default function App() {
         </div>
       )}
 
+      {/* Settings Modal */}
+      {settingsModalOpen && (
+        <SettingsModal
+          onClose={() => setSettingsModalOpen(false)}
+          onReclassify={() => {
+            setSettingsModalOpen(false);
+            setReclassifyScope({ kind: 'all' });
+          }}
+          onImportExport={() => {
+            setSettingsModalOpen(false);
+            setImportExportModalOpen(true);
+          }}
+        />
+      )}
+
+      {/* Export & Import Modal */}
+      {importExportModalOpen && (
+        <ImportExportModal onClose={() => setImportExportModalOpen(false)} />
+      )}
+
+      {/* Re-sort (bulk re-classify) Modal */}
+      {reclassifyScope && (
+        <ReclassifyModal
+          initialScope={reclassifyScope}
+          windowId={currentWindowId}
+          spaces={spaces}
+          onClose={() => setReclassifyScope(null)}
+        />
+      )}
+
+      {/* Suggest Spaces Modal */}
+      {discoverModalOpen && (
+        <DiscoverSpacesModal
+          tabs={tabs}
+          onClose={() => setDiscoverModalOpen(false)}
+        />
+      )}
+
+      {/* Assignment Explanation Modal */}
+      {explanationModal && (
+        <AssignmentExplanationModal
+          tab={explanationModal.tab}
+          explanation={explanationModal.explanation}
+          spaces={spaces}
+          onClose={() => setExplanationModal(null)}
+        />
+      )}
+
+      {/* Undo/Redo Toast */}
+      {historyEvent && (
+        <UndoToast
+          event={historyEvent}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onDismiss={handleDismissHistoryEvent}
+        />
+      )}
+
       {/* Context Menu */}
       {contextMenu && (
         <ContextMenu
@@ -1634,6 +1888,7 @@ export default function App() {
           onTogglePin={handleTogglePin}
           isPinned={contextMenu.tab.pinned}
           onSaveForLater={handleSaveForLater}
+          onExplainAssignment={handleExplainAssignment}
         />
       )}
     </div>
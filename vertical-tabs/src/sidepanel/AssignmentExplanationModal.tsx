@@ -0,0 +1,126 @@
+import { useEffect } from 'react';
+import type { AssignmentExplanation, AssignmentStep, ExtendedTab, Space } from '@/types';
+
+interface AssignmentExplanationModalProps {
+  tab: ExtendedTab;
+  explanation: AssignmentExplanation | null;
+  spaces: Space[];
+  onClose: () => void;
+}
+
+const STEP_LABELS: Record<AssignmentStep, string> = {
+  rule: 'Matched a space rule',
+  scorer: 'Most similar space',
+  opener: 'Followed the tab that opened it',
+  'active-space': 'Opened while this space was active',
+  default: 'No match — placed in the default space',
+  manual: 'Moved here manually',
+  discovery: 'Grouped by “Suggest spaces”',
+};
+
+// Explanations recorded by older versions may be missing newer signals
+function formatScore(value?: number): string {
+  return typeof value === 'number' ? value.toFixed(2) : '—';
+}
+
+export default function AssignmentExplanationModal({
+  tab,
+  explanation,
+  spaces,
+  onClose,
+}: AssignmentExplanationModalProps) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const spaceName = (spaceId: string) => spaces.find(s => s.id === spaceId)?.name ?? spaceId;
+
+  return (
+    <div className="space-modal-backdrop" onClick={onClose}>
+      <div
+        className="space-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal
+        aria-labelledby="explanation-modal-title"
+      >
+        <h2 id="explanation-modal-title" className="space-modal__title" style={{ marginBottom: '8px' }}>
+          Why this space?
+        </h2>
+        <div className="explanation__tab" title={tab.url}>
+          {tab.title || tab.url || 'Untitled tab'}
+        </div>
+
+        {!explanation ? (
+          <div className="explanation__empty">
+            No assignment has been recorded for this tab yet.
+          </div>
+        ) : (
+          <>
+            <div className="space-modal__field">
+              <div className="space-modal__label">Decision</div>
+              <div className="explanation__decision">
+                {STEP_LABELS[explanation.step]} → <strong>{spaceName(explanation.spaceId)}</strong>
+              </div>
+              {explanation.rule && (
+                <div className="explanation__detail">
+                  Rule: {explanation.rule.type} "{explanation.rule.pattern}" (priority {explanation.rule.priority})
+                </div>
+              )}
+              {!explanation.autoAssignEnabled && (
+                <div className="explanation__detail">Auto-assign is turned off in settings.</div>
+              )}
+              <div className="explanation__detail">
+                {new Date(explanation.timestamp).toLocaleString()}
+              </div>
+            </div>
+
+            {explanation.scores.length > 0 && (
+              <div className="space-modal__field">
+                <div className="space-modal__label">Scores</div>
+                <ul className="explanation__scores">
+                  {explanation.scores.map(score => (
+                    <li
+                      key={score.spaceID}
+                      className={`explanation__score${score.spaceID === explanation.spaceId ? ' explanation__score--chosen' : ''}`}
+                    >
+                      <div className="explanation__score-head">
+                        <span>{spaceName(score.spaceID)}</span>
+                        <span className="explanation__score-total">{formatScore(score.combined)}</span>
+                      </div>
+                      <div className="explanation__score-signals">
+                        domain {formatScore(score.domain)} · keywords {formatScore(score.tfidf)} · jaccard {formatScore(score.jaccard)} · prefix {formatScore(score.pathPrefix)} · path {formatScore(score.path)} · site {formatScore(score.entities)} · opener {formatScore(score.opener)} · learned {formatScore(score.learned)}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                {explanation.threshold !== undefined && (
+                  <div className="explanation__detail">
+                    Needs a score ≥ {formatScore(explanation.threshold)}
+                    {explanation.weights && (
+                      <> (weights: {Object.entries(explanation.weights).map(([key, value]) => `${key} ${value}`).join(', ')})</>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="space-modal__actions">
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--secondary"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ interface ContextMenuProps {
   onTogglePin: () => void;
   isPinned: boolean;
   onSaveForLater: () => void;
+  onExplainAssignment: () => void;
 }
 
 export default function ContextMenu({
@@ -26,6 +27,7 @@ export default function ContextMenu({
   onTogglePin,
   isPinned,
   onSaveForLater,
+  onExplainAssignment,
 }: ContextMenuProps) {
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -64,6 +66,7 @@ export default function ContextMenu({
       <MenuButton label={isMuted ? 'Unmute' : 'Mute'} onClick={onMute} />
       <MenuButton label={isPinned ? 'Unpin tab' : 'Pin tab'} onClick={onTogglePin} />
       <MenuButton label="Reading list" onClick={onSaveForLater} />
+      <MenuButton label="Why this space?" onClick={onExplainAssignment} />
       <MenuDivider />
       <MenuButton label="Close tab" onClick={onCloseTab} danger />
     </div>
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import type { ExtendedTab, SpaceProposal } from '@/types';
+import { sendMessage } from '@/lib/messages';
+
+interface DiscoverSpacesModalProps {
+  tabs: ExtendedTab[];
+  onClose: () => void;
+}
+
+export default function DiscoverSpacesModal({ tabs, onClose }: DiscoverSpacesModalProps) {
+  const [proposals, setProposals] = useState<SpaceProposal[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    sendMessage<{ proposals: SpaceProposal[] }>({ type: 'DISCOVER_SPACES' })
+      .then(response => {
+        if (cancelled) return;
+        setProposals(response.proposals);
+        setSelected(new Set(response.proposals.map((_, index) => index)));
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const tabTitle = (tabId: number) => {
+    const tab = tabs.find(t => t.id === tabId);
+    return tab?.title || tab?.url || 'Untitled tab';
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const rename = (index: number, name: string) => {
+    setProposals(prev => prev && prev.map((proposal, i) => (i === index ? { ...proposal, name } : proposal)));
+  };
+
+  const chosen = (proposals ?? []).filter((proposal, index) => selected.has(index) && proposal.name.trim());
+
+  const handleCreate = async () => {
+    if (chosen.length === 0) return;
+    setCreating(true);
+    try {
+      await sendMessage({
+        type: 'CREATE_PROPOSED_SPACES',
+        proposals: chosen.map(proposal => ({ ...proposal, name: proposal.name.trim() })),
+      });
+      onClose();
+    } catch (error) {
+      console.error(error);
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-modal-backdrop" onClick={onClose}>
+      <div
+        className="space-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal
+        aria-labelledby="discover-modal-title"
+      >
+        <h2 id="discover-modal-title" className="space-modal__title">Suggest spaces</h2>
+
+        <div className="space-modal__field">
+          {proposals === null ? (
+            <div className="reclassify__empty">Grouping tabs…</div>
+          ) : proposals.length === 0 ? (
+            <div className="reclassify__empty">
+              No groups found. Only tabs in Home that you haven't placed by hand are considered.
+            </div>
+          ) : (
+            <ul className="reclassify__list">
+              {proposals.map((proposal, index) => (
+                <li key={index} className="reclassify__item">
+                  <div className="discover__header">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(index)}
+                      onChange={() => toggle(index)}
+                      aria-label={`Create ${proposal.name}`}
+                    />
+                    <span className="discover__swatch" style={{ backgroundColor: proposal.color }}>
+                      {proposal.icon}
+                    </span>
+                    <input
+                      type="text"
+                      className="space-modal__input discover__name"
+                      value={proposal.name}
+                      onChange={(e) => rename(index, e.target.value)}
+                      aria-label="Space name"
+                    />
+                  </div>
+                  <div className="reclassify__move">
+                    {proposal.tabIds.length} tab{proposal.tabIds.length !== 1 ? 's' : ''}
+                    {proposal.sharedTerms.length > 0 && ` · ${proposal.sharedTerms.join(', ')}`}
+                  </div>
+                  <ul className="discover__tabs">
+                    {proposal.tabIds.map(tabId => (
+                      <li key={tabId} className="reclassify__tab">{tabTitle(tabId)}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-modal__actions">
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--secondary"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--primary"
+            onClick={handleCreate}
+            disabled={chosen.length === 0 || creating}
+          >
+            Create {chosen.length} space{chosen.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
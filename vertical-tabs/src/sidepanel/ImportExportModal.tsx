@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import type { ExportBundle, ImportOptions, ImportResult } from '@/types';
+import { sendMessage } from '@/lib/messages';
+import { parseExport } from '@/lib/stateTransfer';
+
+interface ImportExportModalProps {
+  onClose: () => void;
+}
+
+interface PendingImport {
+  /** The parsed file as read — the service worker validates it again before applying */
+  data: unknown;
+  bundle: ExportBundle;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`;
+}
+
+function describeResult(result: ImportResult): string {
+  const parts = [
+    result.spacesAdded > 0 && `${plural(result.spacesAdded, 'space')} added`,
+    result.spacesMerged > 0 && `${plural(result.spacesMerged, 'space')} merged`,
+    result.savedItemsAdded > 0 && `${plural(result.savedItemsAdded, 'saved item')} added`,
+    result.tabsOpened > 0 && `${plural(result.tabsOpened, 'tab')} opened`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `Imported: ${parts.join(', ')}.` : 'Nothing new to import.';
+}
+
+function downloadJson(bundle: ExportBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `vertical-tabs-${new Date(bundle.exportedAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ImportExportModal({ onClose }: ImportExportModalProps) {
+  const [exportOptions, setExportOptions] = useState({ settings: true, savedItems: true, openTabs: false });
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [importOptions, setImportOptions] = useState<ImportOptions>({
+    mode: 'merge',
+    settings: false,
+    savedItems: true,
+    openTabs: false,
+  });
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const { bundle } = await sendMessage<{ bundle: ExportBundle }>({ type: 'EXPORT_STATE', ...exportOptions });
+      downloadJson(bundle);
+      setStatus({ message: `Exported ${plural(bundle.spaces.length, 'space')}.`, isError: false });
+    } catch (error) {
+      console.error(error);
+      setStatus({ message: 'Export failed.', isError: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setPending(null);
+    setStatus(null);
+    if (!file) return;
+    try {
+      const data: unknown = JSON.parse(await file.text());
+      setPending({ data, bundle: parseExport(data) });
+    } catch (error) {
+      const message = error instanceof SyntaxError ? 'The file is not valid JSON.' : (error as Error).message;
+      setStatus({ message, isError: true });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      const response = await sendMessage<{ success: boolean; result?: ImportResult; error?: string }>({
+        type: 'IMPORT_STATE',
+        data: pending.data,
+        options: importOptions,
+      });
+      if (response.success && response.result) {
+        setStatus({ message: describeResult(response.result), isError: false });
+        setPending(null);
+      } else {
+        setStatus({ message: response.error ?? 'Import failed.', isError: true });
+      }
+    } catch (error) {
+      console.error(error);
+      setStatus({ message: 'Import failed.', isError: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const bundle = pending?.bundle;
+  const tabCount = bundle?.spaces.reduce((total, space) => total + (space.tabs?.length ?? 0), 0) ?? 0;
+
+  return (
+    <div className="space-modal-backdrop" onClick={onClose}>
+      <div
+        className="space-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal
+        aria-labelledby="transfer-modal-title"
+      >
+        <h2 id="transfer-modal-title" className="space-modal__title">Export &amp; import</h2>
+
+        <div className="space-modal__field">
+          <div className="space-modal__label">Export</div>
+          <label className="settings__toggle">
+            <input
+              type="checkbox"
+              checked={exportOptions.settings}
+              onChange={(e) => setExportOptions(prev => ({ ...prev, settings: e.target.checked }))}
+            />
+            <span>Settings</span>
+          </label>
+          <label className="settings__toggle">
+            <input
+              type="checkbox"
+              checked={exportOptions.savedItems}
+              onChange={(e) => setExportOptions(prev => ({ ...prev, savedItems: e.target.checked }))}
+            />
+            <span>Saved items</span>
+          </label>
+          <label className="settings__toggle">
+            <input
+              type="checkbox"
+              checked={exportOptions.openTabs}
+              onChange={(e) => setExportOptions(prev => ({ ...prev, openTabs: e.target.checked }))}
+            />
+            <span>Open tabs in each space</span>
+          </label>
+          <div className="settings__hint">Spaces and their rules are always included.</div>
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--secondary transfer__button"
+            onClick={handleExport}
+            disabled={busy}
+          >
+            Download export
+          </button>
+        </div>
+
+        <div className="space-modal__field">
+          <label htmlFor="transfer-file" className="space-modal__label">Import</label>
+          <input
+            id="transfer-file"
+            type="file"
+            accept="application/json,.json"
+            className="transfer__file"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+
+          {bundle && (
+            <>
+              <div className="transfer__summary">
+                {plural(bundle.spaces.length, 'space')}: {bundle.spaces.map(space => space.name).join(', ')}
+              </div>
+              <select
+                className="settings__select"
+                value={importOptions.mode}
+                onChange={(e) => setImportOptions(prev => ({ ...prev, mode: e.target.value as ImportOptions['mode'] }))}
+                aria-label="Import mode"
+              >
+                <option value="merge">Merge with my spaces</option>
+                <option value="replace">Replace my spaces</option>
+              </select>
+              {bundle.settings && (
+                <label className="settings__toggle">
+                  <input
+                    type="checkbox"
+                    checked={importOptions.settings}
+                    onChange={(e) => setImportOptions(prev => ({ ...prev, settings: e.target.checked }))}
+                  />
+                  <span>Use the file's settings</span>
+                </label>
+              )}
+              {bundle.savedItems && bundle.savedItems.length > 0 && (
+                <label className="settings__toggle">
+                  <input
+                    type="checkbox"
+                    checked={importOptions.savedItems}
+                    onChange={(e) => setImportOptions(prev => ({ ...prev, savedItems: e.target.checked }))}
+                  />
+                  <span>Import {plural(bundle.savedItems.length, 'saved item')}</span>
+                </label>
+              )}
+              {tabCount > 0 && (
+                <label className="settings__toggle">
+                  <input
+                    type="checkbox"
+                    checked={importOptions.openTabs}
+                    onChange={(e) => setImportOptions(prev => ({ ...prev, openTabs: e.target.checked }))}
+                  />
+                  <span>Open {plural(tabCount, 'tab')} in a new window</span>
+                </label>
+              )}
+              {importOptions.mode === 'replace' && (
+                <div className="settings__hint">
+                  Spaces not in the file are deleted and their tabs move to Home.
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {status && (
+          <div className={`transfer__status${status.isError ? ' transfer__status--error' : ''}`} role="status">
+            {status.message}
+          </div>
+        )}
+
+        <div className="space-modal__actions">
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--secondary"
+            onClick={onClose}
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--primary"
+            onClick={handleImport}
+            disabled={!pending || busy}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ReclassifyChange, ReclassifyScope, Space } from '@/types';
+import { sendMessage } from '@/lib/messages';
+
+interface ReclassifyModalProps {
+  /** Scope the modal opens with — a space scope also offers window/all */
+  initialScope: ReclassifyScope;
+  windowId: number | null;
+  spaces: Space[];
+  onClose: () => void;
+}
+
+type ScopeKind = ReclassifyScope['kind'];
+
+export default function ReclassifyModal({ initialScope, windowId, spaces, onClose }: ReclassifyModalProps) {
+  const [scopeKind, setScopeKind] = useState<ScopeKind>(initialScope.kind);
+  const [changes, setChanges] = useState<ReclassifyChange[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [applying, setApplying] = useState(false);
+
+  const scopeSpaceId = initialScope.kind === 'space' ? initialScope.spaceId : undefined;
+  const spaceName = (spaceId: string) => spaces.find(s => s.id === spaceId)?.name ?? spaceId;
+
+  const scope = useMemo((): ReclassifyScope | null => {
+    if (scopeKind === 'space') return scopeSpaceId ? { kind: 'space', spaceId: scopeSpaceId } : null;
+    if (scopeKind === 'window') return windowId !== null ? { kind: 'window', windowId } : null;
+    return { kind: 'all' };
+  }, [scopeKind, scopeSpaceId, windowId]);
+
+  useEffect(() => {
+    if (!scope) return;
+    let cancelled = false;
+    sendMessage<{ changes: ReclassifyChange[] }>({ type: 'RECLASSIFY_TABS', scope })
+      .then(response => {
+        if (cancelled) return;
+        setChanges(response.changes);
+        setSelected(new Set(response.changes.map(change => change.tabId)));
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toggle = (tabId: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(tabId)) next.delete(tabId);
+      else next.add(tabId);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!scope || selected.size === 0) return;
+    setApplying(true);
+    try {
+      await sendMessage({ type: 'RECLASSIFY_TABS', scope, apply: true, tabIds: Array.from(selected) });
+      onClose();
+    } catch (error) {
+      console.error(error);
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-modal-backdrop" onClick={onClose}>
+      <div
+        className="space-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal
+        aria-labelledby="reclassify-modal-title"
+      >
+        <h2 id="reclassify-modal-title" className="space-modal__title">Re-sort tabs</h2>
+
+        <div className="space-modal__field">
+          <label htmlFor="reclassify-scope" className="space-modal__label">Tabs to check</label>
+          <select
+            id="reclassify-scope"
+            className="settings__select"
+            value={scopeKind}
+            onChange={(e) => {
+              setChanges(null);
+              setScopeKind(e.target.value as ScopeKind);
+            }}
+          >
+            {scopeSpaceId && (
+              <option value="space">In or matching “{spaceName(scopeSpaceId)}”</option>
+            )}
+            {windowId !== null && <option value="window">This window</option>}
+            <option value="all">All open tabs</option>
+          </select>
+        </div>
+
+        <div className="space-modal__field">
+          <div className="space-modal__label">Preview</div>
+          {changes === null ? (
+            <div className="reclassify__empty">Checking tabs…</div>
+          ) : changes.length === 0 ? (
+            <div className="reclassify__empty">
+              No tabs would move. Tabs you placed by hand are left alone.
+            </div>
+          ) : (
+            <ul className="reclassify__list">
+              {changes.map(change => (
+                <li key={change.tabId} className="reclassify__item">
+                  <label className="reclassify__row">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(change.tabId)}
+                      onChange={() => toggle(change.tabId)}
+                    />
+                    <span className="reclassify__tab" title={change.url}>
+                      {change.title || change.url || 'Untitled tab'}
+                    </span>
+                  </label>
+                  <div className="reclassify__move">
+                    {spaceName(change.fromSpaceId)} → <strong>{spaceName(change.toSpaceId)}</strong>
+                    {change.rule
+                      ? ` · rule ${change.rule.type} "${change.rule.pattern}"`
+                      : ' · similarity'}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-modal__actions">
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--secondary"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--primary"
+            onClick={handleApply}
+            disabled={!changes || selected.size === 0 || applying}
+          >
+            Move {selected.size} tab{selected.size !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import { useEffect, useState } from 'react';
+import type { ScoreWeights, StorageDiagnostics, StorageSection, UserSettings } from '@/types';
+import { sendMessage } from '@/lib/messages';
+
+interface SettingsModalProps {
+  onClose: () => void;
+  /** Open the bulk re-sort preview for already-open tabs */
+  onReclassify: () => void;
+  /** Open export/import of spaces, settings and saved items */
+  onImportExport: () => void;
+}
+
+// Page signals read every site the user visits, so host access is only asked for on opt-in
+const PAGE_SIGNAL_ORIGINS = ['<all_urls>'];
+
+const WEIGHT_FIELDS: { key: keyof ScoreWeights; label: string; hint: string }[] = [
+  { key: 'domain', label: 'Domain', hint: 'Same site as tabs already in the space' },
+  { key: 'keywords', label: 'Keywords', hint: 'Title words shared with the space' },
+  { key: 'pathPrefix', label: 'Prefix', hint: 'Same leading URL path on the same site, e.g. github.com/your-org' },
+  { key: 'path', label: 'Path', hint: 'URL path words shared with the space' },
+  { key: 'entities', label: 'Site', hint: 'Same repo, Jira project or document as tabs in the space' },
+  { key: 'opener', label: 'Opener', hint: 'Opened from a tab in the space' },
+  { key: 'learned', label: 'Learned', hint: 'Resembles tabs you moved into the space by hand' },
+];
+
+// One synonym group per line, terms separated by commas
+function formatSynonyms(groups: string[][]): string {
+  return groups.map(group => group.join(', ')).join('\n');
+}
+
+const STORAGE_SECTION_LABELS: Record<StorageSection, string> = {
+  tabMetadata: 'Tab records',
+  spaces: 'Spaces',
+  savedItems: 'Saved items',
+  learnedExamples: 'Learned examples',
+  settings: 'Settings',
+  other: 'Other',
+};
+
+function formatKilobytes(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function parseSynonyms(text: string): string[][] {
+  return text
+    .split('\n')
+    .map(line => line.split(',').map(term => term.trim().toLowerCase()).filter(Boolean))
+    .filter(group => group.length >= 2);
+}
+
+export default function SettingsModal({ onClose, onReclassify, onImportExport }: SettingsModalProps) {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [learnedCount, setLearnedCount] = useState<number | null>(null);
+  const [synonymsText, setSynonymsText] = useState('');
+  const [diagnostics, setDiagnostics] = useState<StorageDiagnostics | null>(null);
+  const [pruning, setPruning] = useState(false);
+  const [compacting, setCompacting] = useState(false);
+
+  useEffect(() => {
+    sendMessage<UserSettings>({ type: 'GET_SETTINGS' })
+      .then(loaded => {
+        setSettings(loaded);
+        setSynonymsText(formatSynonyms(loaded.keywordSynonyms));
+      })
+      .catch(console.error);
+    sendMessage<{ examples: number }>({ type: 'GET_LEARNING_SUMMARY' })
+      .then(summary => setLearnedCount(summary.examples))
+      .catch(console.error);
+    sendMessage<StorageDiagnostics>({ type: 'GET_DIAGNOSTICS' })
+      .then(setDiagnostics)
+      .catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSave = async () => {
+    if (!settings) return;
+    await sendMessage({
+      type: 'UPDATE_SETTINGS',
+      updates: {
+        autoAssignSpaces: settings.autoAssignSpaces,
+        autoAssignMode: settings.autoAssignMode,
+        similarityThreshold: settings.similarityThreshold,
+        scoreWeights: settings.scoreWeights,
+        keywordSynonyms: parseSynonyms(synonymsText),
+        pageSignalsEnabled: settings.pageSignalsEnabled,
+        syncEnabled: settings.syncEnabled,
+      },
+    });
+    onClose();
+  };
+
+  const handleResetLearning = async () => {
+    await sendMessage({ type: 'RESET_LEARNING' });
+    setLearnedCount(0);
+  };
+
+  const handlePrune = async () => {
+    setPruning(true);
+    try {
+      setDiagnostics(await sendMessage<StorageDiagnostics>({ type: 'PRUNE_ORPHANED_TABS' }));
+    } finally {
+      setPruning(false);
+    }
+  };
+
+  const handleCompact = async () => {
+    setCompacting(true);
+    try {
+      setDiagnostics(await sendMessage<StorageDiagnostics>({ type: 'COMPACT_STORAGE' }));
+    } finally {
+      setCompacting(false);
+    }
+  };
+
+  const savePageSignals = async (enabled: boolean): Promise<boolean> => {
+    try {
+      const response = await sendMessage<{ success: boolean }>({
+        type: 'UPDATE_SETTINGS',
+        updates: { pageSignalsEnabled: enabled },
+      });
+      return response.success;
+    } catch (error) {
+      console.error(error);
+      return false;
+    }
+  };
+
+  // The host permission and the saved setting must agree. Granting has to run straight from the
+  // click — Chrome only shows the prompt during a user gesture — so it goes first and is revoked
+  // if the setting can't be saved. Turning off saves first and restores the setting if the
+  // permission can't be dropped.
+  const handlePageSignalsToggle = async (enabled: boolean) => {
+    if (enabled) {
+      const granted = await chrome.permissions.request({ origins: PAGE_SIGNAL_ORIGINS });
+      if (!granted) return;
+      if (!(await savePageSignals(true))) {
+        await chrome.permissions.remove({ origins: PAGE_SIGNAL_ORIGINS });
+        return;
+      }
+    } else {
+      if (!(await savePageSignals(false))) return;
+      try {
+        await chrome.permissions.remove({ origins: PAGE_SIGNAL_ORIGINS });
+      } catch (error) {
+        await savePageSignals(true);
+        throw error;
+      }
+    }
+    setSettings(prev => prev && { ...prev, pageSignalsEnabled: enabled });
+  };
+
+  const setWeight = (key: keyof ScoreWeights, value: number) => {
+    setSettings(prev => prev && { ...prev, scoreWeights: { ...prev.scoreWeights, [key]: value } });
+  };
+
+  const usage = diagnostics?.usage;
+
+  return (
+    <div className="space-modal-backdrop" onClick={onClose}>
+      <div
+        className="space-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal
+        aria-labelledby="settings-modal-title"
+      >
+        <h2 id="settings-modal-title" className="space-modal__title">Settings</h2>
+
+        {!settings ? (
+          <div className="settings__loading">Loading…</div>
+        ) : (
+          <>
+            <div className="space-modal__field">
+              <label className="settings__toggle">
+                <input
+                  type="checkbox"
+                  checked={settings.autoAssignSpaces}
+                  onChange={(e) => setSettings(prev => prev && { ...prev, autoAssignSpaces: e.target.checked })}
+                />
+                <span>Auto-assign new tabs to spaces</span>
+              </label>
+              <select
+                className="settings__select"
+                value={settings.autoAssignMode}
+                disabled={!settings.autoAssignSpaces}
+                onChange={(e) => setSettings(prev => prev && { ...prev, autoAssignMode: e.target.value as UserSettings['autoAssignMode'] })}
+                aria-label="Auto-assign mode"
+              >
+                <option value="move">Move tabs automatically</option>
+                <option value="suggest">Only suggest a space</option>
+              </select>
+              <button
+                type="button"
+                className="settings__link"
+                onClick={onReclassify}
+                disabled={!settings.autoAssignSpaces}
+              >
+                Re-sort open tabs…
+              </button>
+            </div>
+
+            <div className="space-modal__field">
+              <label htmlFor="settings-threshold" className="space-modal__label">
+                Match threshold <span className="settings__value">{settings.similarityThreshold.toFixed(2)}</span>
+              </label>
+              <input
+                id="settings-threshold"
+                type="range"
+                className="settings__slider"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.similarityThreshold}
+                disabled={!settings.autoAssignSpaces}
+                onChange={(e) => setSettings(prev => prev && { ...prev, similarityThreshold: Number(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-modal__field">
+              <div className="space-modal__label">Signal weights</div>
+              {WEIGHT_FIELDS.map(field => (
+                <div key={field.key} className="settings__weight" title={field.hint}>
+                  <span className="settings__weight-label">{field.label}</span>
+                  <input
+                    type="range"
+                    className="settings__slider"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={settings.scoreWeights[field.key]}
+                    disabled={!settings.autoAssignSpaces}
+                    onChange={(e) => setWeight(field.key, Number(e.target.value))}
+                    aria-label={`${field.label} weight`}
+                  />
+                  <span className="settings__value">{settings.scoreWeights[field.key].toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-modal__field">
+              <label htmlFor="settings-synonyms" className="space-modal__label">Keyword synonyms</label>
+              <textarea
+                id="settings-synonyms"
+                className="space-modal__input settings__textarea"
+                rows={4}
+                value={synonymsText}
+                onChange={(e) => setSynonymsText(e.target.value)}
+                placeholder="kubernetes, k8s"
+                spellCheck={false}
+              />
+              <div className="settings__hint">
+                One group per line, comma-separated. Applies to tabs as they next load or change title.
+              </div>
+            </div>
+
+            <div className="space-modal__field">
+              <label className="settings__toggle">
+                <input
+                  type="checkbox"
+                  checked={settings.pageSignalsEnabled}
+                  onChange={(e) => handlePageSignalsToggle(e.target.checked).catch(console.error)}
+                />
+                <span>Read page descriptions and headings</span>
+              </label>
+              <div className="settings__hint">
+                Helps match pages with unhelpful titles. Asks for access to the sites you visit; nothing leaves your browser.
+              </div>
+            </div>
+
+            <div className="space-modal__field">
+              <div className="space-modal__label">Learning</div>
+              <div className="settings__learning">
+                <span>
+                  {learnedCount === null
+                    ? 'Loading…'
+                    : `Learned from ${learnedCount} manual move${learnedCount !== 1 ? 's' : ''}`}
+                </span>
+                <button
+                  type="button"
+                  className="space-modal__btn space-modal__btn--secondary"
+                  onClick={handleResetLearning}
+                  disabled={!learnedCount}
+                >
+                  Reset
+                </button>
+              </div>
+            </div>
+
+            <div className="space-modal__field">
+              <div className="space-modal__label">Backup &amp; sharing</div>
+              <label className="settings__toggle">
+                <input
+                  type="checkbox"
+                  checked={settings.syncEnabled}
+                  onChange={(e) => setSettings(prev => prev && { ...prev, syncEnabled: e.target.checked })}
+                />
+                <span>Sync spaces, settings and saved items</span>
+              </label>
+              <div className="settings__hint">
+                Through your browser account. Open tabs stay on each device.
+              </div>
+              <button type="button" className="settings__link" onClick={onImportExport}>
+                Export or import spaces…
+              </button>
+            </div>
+
+            <div className="space-modal__field">
+              <div className="space-modal__label">Diagnostics</div>
+              <div className="settings__learning">
+                <span>
+                  {diagnostics === null
+                    ? 'Loading…'
+                    : `${diagnostics.metadataEntries} tab records, ${diagnostics.spaceTabIds} tabs in spaces`}
+                </span>
+                <button
+                  type="button"
+                  className="space-modal__btn space-modal__btn--secondary"
+                  onClick={() => handlePrune().catch(console.error)}
+                  disabled={!diagnostics || pruning || diagnostics.restoringSession}
+                >
+                  Clean up
+                </button>
+              </div>
+              {diagnostics?.restoringSession && (
+                <div className="settings__hint">
+                  The browser is still restoring your last session. Cleanup is available once its tabs are back.
+                </div>
+              )}
+              {diagnostics?.lastCleanup && (
+                <div className="settings__hint">
+                  Last cleanup {new Date(diagnostics.lastCleanup.ranAt).toLocaleString()}:
+                  {' '}{diagnostics.lastCleanup.metadataRemoved} orphaned records and
+                  {' '}{diagnostics.lastCleanup.tabIdsRemoved} space entries removed
+                  ({diagnostics.lastCleanup.liveTabs} open tabs).
+                </div>
+              )}
+              {diagnostics && (
+                <div className="settings__hint">
+                  {diagnostics.writes.operations} storage writes
+                  ({(diagnostics.writes.bytesWritten / 1024).toFixed(1)} KB, {diagnostics.writes.keysWritten} keys)
+                  since {new Date(diagnostics.writes.since).toLocaleTimeString()}.
+                </div>
+              )}
+              {diagnostics?.sync?.error ? (
+                <div className="settings__hint">Sync failed: {diagnostics.sync.error}</div>
+              ) : diagnostics?.sync?.lastSyncedAt && (
+                <div className="settings__hint">
+                  Last synced {new Date(diagnostics.sync.lastSyncedAt).toLocaleString()}
+                  {diagnostics.sync.bytesInUse !== undefined && ` (${(diagnostics.sync.bytesInUse / 1024).toFixed(1)} KB)`}
+                  {diagnostics.sync.conflictsResolved > 0 && `, ${diagnostics.sync.conflictsResolved} simultaneous edits resolved`}.
+                </div>
+              )}
+              {diagnostics?.sync?.savedItemsNotSynced && (
+                <div className="settings__hint">
+                  Sync storage is full: the {diagnostics.sync.savedItemsNotSynced} oldest saved
+                  {diagnostics.sync.savedItemsNotSynced !== 1 ? ' items stay' : ' item stays'} on this device only.
+                  Remove some saved items to sync them all.
+                </div>
+              )}
+            </div>
+
+            {usage && (
+              <div className="space-modal__field">
+                <div className="space-modal__label">Storage</div>
+                <div className="settings__learning">
+                  <span>
+                    {formatKilobytes(usage.bytesInUse)} of {formatKilobytes(usage.quotaBytes)} used
+                  </span>
+                  <button
+                    type="button"
+                    className="space-modal__btn space-modal__btn--secondary"
+                    onClick={() => handleCompact().catch(console.error)}
+                    disabled={compacting || diagnostics.restoringSession}
+                  >
+                    Compact
+                  </button>
+                </div>
+                <div className="storage-usage__bar" aria-hidden>
+                  <div
+                    className="storage-usage__fill"
+                    style={{ width: `${Math.min(100, (usage.bytesInUse / usage.quotaBytes) * 100)}%` }}
+                  />
+                </div>
+                <ul className="storage-usage__sections">
+                  {(Object.keys(STORAGE_SECTION_LABELS) as StorageSection[]).map(section => (
+                    <li key={section} className="storage-usage__section">
+                      <span>{STORAGE_SECTION_LABELS[section]}</span>
+                      <span>{formatKilobytes(usage.sections[section])}</span>
+                    </li>
+                  ))}
+                </ul>
+                {diagnostics.lastCompaction && (
+                  <div className="settings__hint">
+                    Last compacted {new Date(diagnostics.lastCompaction.ranAt).toLocaleString()}:
+                    {' '}{formatKilobytes(diagnostics.lastCompaction.bytesBefore)} → {formatKilobytes(diagnostics.lastCompaction.bytesAfter)}.
+                  </div>
+                )}
+                <div className="settings__hint">
+                  Compacting runs on its own once storage is half full.
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="space-modal__actions">
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--secondary"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="space-modal__btn space-modal__btn--primary"
+            onClick={handleSave}
+            disabled={!settings}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
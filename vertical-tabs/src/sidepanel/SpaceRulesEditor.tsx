@@ -0,0 +1,156 @@
+import { useMemo } from 'react';
+import type { ExtendedTab, SpaceRule } from '@/types';
+import { ruleInputFromTab, ruleMatches, validateRule } from '@/lib/spaceRules';
+
+interface SpaceRulesEditorProps {
+  rules: SpaceRule[];
+  tabs: ExtendedTab[];
+  onChange: (rules: SpaceRule[]) => void;
+}
+
+const RULE_TYPES: { value: SpaceRule['type']; label: string; placeholder: string }[] = [
+  { value: 'domain', label: 'Domain', placeholder: 'github.com' },
+  { value: 'keyword', label: 'Keyword', placeholder: 'invoice' },
+  { value: 'regex', label: 'Regex', placeholder: '^https://.*\\.atlassian\\.net/' },
+];
+
+const PREVIEW_LIMIT = 4;
+
+export default function SpaceRulesEditor({ rules, tabs, onChange }: SpaceRulesEditorProps) {
+  const ruleInputs = useMemo(
+    () => tabs.map(tab => ({ tab, input: ruleInputFromTab(tab.url ?? '', tab.title ?? '') })),
+    [tabs]
+  );
+
+  const updateRule = (index: number, updates: Partial<SpaceRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  const addRule = () => {
+    onChange([...rules, { type: 'domain', pattern: '', priority: 0 }]);
+  };
+
+  return (
+    <div className="space-rules">
+      {rules.length === 0 && (
+        <div className="space-rules__empty">
+          No rules — tabs are placed by similarity only.
+        </div>
+      )}
+
+      {rules.map((rule, index) => {
+        const error = rule.pattern.trim() ? validateRule(rule) : null;
+        const matches = error || !rule.pattern.trim()
+          ? []
+          : ruleInputs.filter(({ input }) => ruleMatches(rule, input)).map(({ tab }) => tab);
+        const typeInfo = RULE_TYPES.find(t => t.value === rule.type) ?? RULE_TYPES[0];
+
+        return (
+          <div key={index} className="space-rule">
+            <div className="space-rule__row">
+              <select
+                className="space-rule__type"
+                value={rule.type}
+                onChange={(e) => updateRule(index, { type: e.target.value as SpaceRule['type'] })}
+                aria-label="Rule type"
+              >
+                {RULE_TYPES.map(t => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className={`space-modal__input space-rule__pattern${error ? ' space-rule__pattern--invalid' : ''}`}
+                placeholder={typeInfo.placeholder}
+                value={rule.pattern}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                aria-label="Rule pattern"
+                aria-invalid={!!error}
+                spellCheck={false}
+              />
+              <input
+                type="number"
+                className="space-modal__input space-rule__priority"
+                value={rule.priority}
+                onChange={(e) => updateRule(index, { priority: e.target.value === '' ? 0 : Number(e.target.value) })}
+                aria-label="Rule priority"
+                title="Priority — higher wins across all spaces"
+              />
+            </div>
+
+            <div className="space-rule__row space-rule__meta">
+              {error ? (
+                <span className="space-rule__error">{error}</span>
+              ) : (
+                <span className="space-rule__count">
+                  {rule.pattern.trim()
+                    ? `Matches ${matches.length} open tab${matches.length !== 1 ? 's' : ''}`
+                    : 'Enter a pattern'}
+                </span>
+              )}
+              <div className="space-rule__controls">
+                <button
+                  type="button"
+                  className="space-rule__control"
+                  onClick={() => moveRule(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move rule up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className="space-rule__control"
+                  onClick={() => moveRule(index, 1)}
+                  disabled={index === rules.length - 1}
+                  aria-label="Move rule down"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  className="space-rule__control space-rule__control--danger"
+                  onClick={() => removeRule(index)}
+                  aria-label="Delete rule"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+
+            {matches.length > 0 && (
+              <ul className="space-rule__preview">
+                {matches.slice(0, PREVIEW_LIMIT).map(tab => (
+                  <li key={tab.id} className="space-rule__preview-item" title={tab.url}>
+                    {tab.title || tab.url || 'Untitled tab'}
+                  </li>
+                ))}
+                {matches.length > PREVIEW_LIMIT && (
+                  <li className="space-rule__preview-item space-rule__preview-item--more">
+                    +{matches.length - PREVIEW_LIMIT} more
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <button type="button" className="space-rules__add" onClick={addRule}>
+        + Add rule
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { memo, useState, useRef, useLayoutEffect } from 'react';
 import type React from 'react';
-import type { ExtendedTab } from '@/types';
+import type { ExtendedTab, Space } from '@/types';
 
 import type { FuseResultMatch } from 'fuse.js';
 
@@ -13,6 +13,10 @@ interface TabProps {
   searchHighlightQuery?: string;
   variant?: TabVariant;
   fullWidth?: boolean;
+  /** Space the assigner suggests moving this tab to (suggest mode) */
+  suggestedSpace?: Space;
+  onAcceptSuggestion?: () => void;
+  onDismissSuggestion?: () => void;
   onClick: () => void;
   onClose: (e: React.MouseEvent) => void;
   onContextMenu: (e: React.MouseEvent) => void;
@@ -74,7 +78,7 @@ const HighlightedText = ({ text, matches, query }: { text: string; matches?: rea
 };
 
 // Memoized Tab component - only re-renders when props actually change
-const Tab = memo(function Tab({ tab, isActive, matches, searchHighlightQuery, variant, fullWidth, onClick, onClose, onContextMenu, onDragStart, onDragEnd }: TabProps) {
+const Tab = memo(function Tab({ tab, isActive, matches, searchHighlightQuery, variant, fullWidth, suggestedSpace, onAcceptSuggestion, onDismissSuggestion, onClick, onClose, onContextMenu, onDragStart, onDragEnd }: TabProps) {
   // Track image error and loading state
   const [imgError, setImgError] = useState(false);
   const [imgLoaded, setImgLoaded] = useState(false);
@@ -135,6 +139,9 @@ const Tab = memo(function Tab({ tab, isActive, matches, searchHighlightQuery, va
     .join(' ');
   const isPinned = !!tab.pinned;
   const iconSize = isPinned ? '20px' : '32px';
+  const tooltip = tab.matchedRule
+    ? `${tab.title ?? tab.url ?? 'Untitled tab'}\nSpace rule: ${tab.matchedRule.type} "${tab.matchedRule.pattern}"`
+    : (tab.title ?? tab.url ?? 'Untitled tab');
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.button === 1) {
@@ -163,7 +170,7 @@ const Tab = memo(function Tab({ tab, isActive, matches, searchHighlightQuery, va
         }
       }}
       style={fullWidth ? { width: '100%' } : undefined}
-      title={tab.title ?? tab.url ?? 'Untitled tab'}
+      title={tooltip}
     >
       <div
         className="tab-icon"
@@ -229,6 +236,36 @@ const Tab = memo(function Tab({ tab, isActive, matches, searchHighlightQuery, va
         </>
       )}
 
+      {isDefault && suggestedSpace && (
+        <span
+          className="tab-suggestion"
+          style={{ '--suggestion-color': suggestedSpace.color } as React.CSSProperties}
+        >
+          <button
+            type="button"
+            className="tab-suggestion__accept"
+            onClick={(e) => {
+              e.stopPropagation();
+              onAcceptSuggestion?.();
+            }}
+            title={`Move to ${suggestedSpace.name}`}
+          >
+            → {suggestedSpace.icon ? `${suggestedSpace.icon} ` : ''}{suggestedSpace.name}
+          </button>
+          <button
+            type="button"
+            className="tab-suggestion__dismiss"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDismissSuggestion?.();
+            }}
+            aria-label="Dismiss suggestion"
+          >
+            ✕
+          </button>
+        </span>
+      )}
+
       {isDefault && (
         <button
           type="button"
@@ -255,6 +292,8 @@ const Tab = memo(function Tab({ tab, isActive, matches, searchHighlightQuery, va
     prev.tab.pinned === next.tab.pinned &&
     prev.tab.url === next.tab.url &&
     prev.tab.lastActiveAt === next.tab.lastActiveAt &&
+    prev.tab.matchedRule === next.tab.matchedRule &&
+    prev.suggestedSpace === next.suggestedSpace &&
     prev.searchHighlightQuery === next.searchHighlightQuery &&
     JSON.stringify(prev.matches) === JSON.stringify(next.matches)
   );
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import type { HistoryEvent } from '@/types';
+
+interface UndoToastProps {
+  event: HistoryEvent;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 6000;
+
+const PREFIXES: Record<HistoryEvent['kind'], string> = {
+  recorded: '',
+  undone: 'Undid: ',
+  redone: 'Redid: ',
+};
+
+export default function UndoToast({ event, onUndo, onRedo, onDismiss }: UndoToastProps) {
+  // Restart the timer for every new event, even one with the same label
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [event, onDismiss]);
+
+  const canRedo = event.kind === 'undone';
+
+  return (
+    <div className="undo-toast" role="status">
+      <span className="undo-toast__label">{PREFIXES[event.kind]}{event.label}</span>
+      <button
+        type="button"
+        className="undo-toast__action"
+        onClick={canRedo ? onRedo : onUndo}
+      >
+        {canRedo ? 'Redo' : 'Undo'}
+      </button>
+      <button
+        type="button"
+        className="undo-toast__close"
+        onClick={onDismiss}
+        aria-label="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -1,8 +1,14 @@
+import type { SpaceScore } from '@/lib/similarityScorer';
+
 // Tab with our custom metadata
 export interface ExtendedTab extends chrome.tabs.Tab {
   lastActiveAt?: number;
   createdAt?: number;
   spaceId?: string;
+  /** The space rule that placed this tab, if it was assigned by an explicit rule */
+  matchedRule?: SpaceRule;
+  /** Space the assigner would move this tab to, while in suggest mode */
+  suggestedSpaceId?: string;
 }
 
 // Window with metadata
@@ -36,10 +42,26 @@ export interface Space {
   rules: SpaceRule[];
   /** When true the auto-assigner will skip this space when scoring new tabs */
   autoAssignDisabled?: boolean;
+  /** Tabs saved and closed by "Archive space", waiting to be restored */
+  archive?: SpaceArchive;
   createdAt: number;
   lastAccessedAt: number;
 }
 
+// One tab as kept in a space archive
+export interface ArchivedTab {
+  url: string;
+  title?: string;
+  favIconUrl?: string;
+  pinned: boolean;
+}
+
+// A space's tabs at the time it was archived, in tab strip order
+export interface SpaceArchive {
+  archivedAt: number;
+  tabs: ArchivedTab[];
+}
+
 // Core state managed by TabEngine
 export interface TabState {
   tabs: Map<number, ExtendedTab>;
@@ -68,6 +90,17 @@ export interface AppState {
   isLoading: boolean;
 }
 
+// Relative weight of each similarity signal in the combined score
+export interface ScoreWeights {
+  domain: number;
+  keywords: number;
+  pathPrefix: number;
+  path: number;
+  entities: number;
+  opener: number;
+  learned: number;
+}
+
 // User settings
 export interface UserSettings {
   theme: 'light' | 'dark' | 'system';
@@ -76,14 +109,250 @@ export interface UserSettings {
   autoAssignSpaces: boolean;
   /** Minimum score [0-1] required to auto-assign a tab. Defaults to 0.45 */
   similarityThreshold: number;
+  /** Per-signal weights for the combined similarity score */
+  scoreWeights: ScoreWeights;
+  /** 'move' places tabs automatically; 'suggest' only offers the best space for the user to accept */
+  autoAssignMode: 'move' | 'suggest';
+  /** Groups of interchangeable keywords, e.g. ["kubernetes", "k8s"]; the first term is stored */
+  keywordSynonyms: string[][];
+  /** Read <meta>/og: tags and headings from pages (needs the optional host permission) */
+  pageSignalsEnabled: boolean;
   staleTabThresholdDays: number;
   useNativeReadingList: boolean;
+  /** Mirror spaces, settings and saved items to chrome.storage.sync (this device only) */
+  syncEnabled: boolean;
+}
+
+// Which step of the assignment chain placed a tab
+export type AssignmentStep = 'rule' | 'scorer' | 'opener' | 'active-space' | 'default' | 'manual' | 'discovery';
+
+// Snapshot of the last assignment decision for a tab ("why is this tab here?")
+export interface AssignmentExplanation {
+  step: AssignmentStep;
+  spaceId: string;
+  /** Every candidate space, best first — empty when the scorer didn't run */
+  scores: SpaceScore[];
+  /** Combined-score cutoff and weights in effect when the scorer ran */
+  threshold?: number;
+  weights?: ScoreWeights;
+  /** False when the auto-assign master switch was off and only fallbacks applied */
+  autoAssignEnabled: boolean;
+  rule?: SpaceRule;
+  openerTabId?: number;
+  timestamp: number;
+}
+
+// Which open tabs a bulk re-classification looks at. A space scope covers tabs
+// currently in the space as well as tabs that would move into it.
+export type ReclassifyScope =
+  | { kind: 'all' }
+  | { kind: 'space'; spaceId: string }
+  | { kind: 'window'; windowId: number };
+
+// One move proposed (or made) by a bulk re-classification
+export interface ReclassifyChange {
+  tabId: number;
+  title?: string;
+  url?: string;
+  fromSpaceId: string;
+  toSpaceId: string;
+  step: AssignmentStep;
+  rule?: SpaceRule;
+}
+
+// What the side panel needs to know about the undo/redo journal
+export interface HistoryState {
+  /** Label of the action UNDO would revert, e.g. "Close 3 tabs" */
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+// A change to the journal worth telling the user about (shown as a toast)
+export interface HistoryEvent {
+  kind: 'recorded' | 'undone' | 'redone';
+  label: string;
+}
+
+// A space proposed by clustering open tabs ("Suggest spaces"), created only on confirmation
+export interface SpaceProposal {
+  name: string;
+  color: string;
+  icon: string;
+  tabIds: number[];
+  /** What the tabs have in common, most telling first — shown in the preview */
+  sharedTerms: string[];
+}
+
+// A pending suggest-mode decision, applied as-is if the user accepts it
+export interface AssignmentSuggestion {
+  spaceId: string;
+  rule?: SpaceRule;
+  explanation: AssignmentExplanation;
+}
+
+// Text read from the page itself when page signals are enabled
+export interface PageSignals {
+  /** URL the signals were read from — stale once the tab navigates away */
+  url: string;
+  description?: string;
+  keywords?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+  ogSiteName?: string;
+  /** First few h1/h2 headings, in document order */
+  headings: string[];
+}
+
+// Per-tab metadata persisted alongside spaces
+export interface TabMetadataEntry {
+  spaceId?: string;
+  lastActiveAt?: number;
+  createdAt?: number;
+  domain?: string;
+  subdomains?: string[];
+  keywords?: string[];
+  pathSegments?: string[];
+  pathPrefix?: string[];
+  entities?: string[];
+  pageSignals?: PageSignals;
+  autoAssigned?: boolean;
+  /** Set when an explicit space rule (rather than the scorer or a fallback) chose the space */
+  matchedRule?: SpaceRule;
+  explanation?: AssignmentExplanation;
+  suggestion?: AssignmentSuggestion;
+  /** Last suggested space the user dismissed — not offered again for this tab */
+  dismissedSuggestion?: string;
+  /** Where the tab was last seen — used to find it again after a restart changes its id */
+  url?: string;
+  title?: string;
+  windowId?: number;
+  index?: number;
+}
+
+// A manual reassignment kept as a labelled example (features → space) for the scorer
+export interface LearnedExample {
+  spaceId: string;
+  domain: string;
+  keywords: string[];
+  pathPrefix: string[];
+  timestamp: number;
+}
+
+// A space as written to an export file. Tab ids mean nothing in another browser,
+// so open tabs travel as URLs
+export interface ExportedSpace {
+  id: string;
+  name: string;
+  color: string;
+  icon?: string;
+  rules: SpaceRule[];
+  autoAssignDisabled?: boolean;
+  tabs?: { url: string; title?: string }[];
+}
+
+// Versioned export file: spaces with their rules, and optionally settings and saved items
+export interface ExportBundle {
+  format: 'vertical-tabs-export';
+  version: number;
+  exportedAt: number;
+  spaces: ExportedSpace[];
+  settings?: Partial<UserSettings>;
+  savedItems?: SavedItem[];
+}
+
+export interface ImportOptions {
+  /** 'merge' adds to what's here (same-named spaces share rules); 'replace' starts over */
+  mode: 'merge' | 'replace';
+  settings: boolean;
+  savedItems: boolean;
+  /** Open the tabs saved with each space */
+  openTabs: boolean;
+}
+
+export interface ImportResult {
+  spacesAdded: number;
+  spacesMerged: number;
+  savedItemsAdded: number;
+  tabsOpened: number;
+}
+
+// Outcome of one pass pruning metadata left behind by tabs that no longer exist
+export interface CleanupReport {
+  ranAt: number;
+  liveTabs: number;
+  metadataRemoved: number;
+  tabIdsRemoved: number;
+}
+
+// The part of the state mirrored through chrome.storage.sync
+export interface SyncedState {
+  spaces: Pick<Space, 'id' | 'name' | 'color' | 'icon' | 'rules' | 'autoAssignDisabled'>[];
+  settings: Partial<UserSettings>;
+  savedItems: SavedItem[];
+}
+
+export interface SyncStatus {
+  lastSyncedAt?: number;
+  /** Fields another device had changed at the same time — the later edit was kept */
+  conflictsResolved: number;
+  bytesInUse?: number;
+  /** Oldest saved items left out of sync because everything together exceeds its quota */
+  savedItemsNotSynced?: number;
+  /** Why the last sync failed, usually a chrome.storage.sync quota */
+  error?: string;
+}
+
+// Bookkeeping counts for the diagnostics section of the settings
+// chrome.storage.local writes made by the state manager since the service worker started
+export interface StorageWriteStats {
+  since: number;
+  /** set() and remove() calls */
+  operations: number;
+  keysWritten: number;
+  keysRemoved: number;
+  /** Serialized size of everything written, as the storage quota counts it */
+  bytesWritten: number;
+}
+
+export type StorageSection = 'settings' | 'spaces' | 'tabMetadata' | 'savedItems' | 'learnedExamples' | 'other';
+
+// chrome.storage.local usage, from getBytesInUse
+export interface StorageUsage {
+  measuredAt: number;
+  bytesInUse: number;
+  quotaBytes: number;
+  /** 'other' is everything else: sync bookkeeping, the migration backup, diagnostics */
+  sections: Record<StorageSection, number>;
+}
+
+export interface CompactionReport {
+  ranAt: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  /** Tab entries whose feature lists or stale page signals were trimmed */
+  entriesTrimmed: number;
+  metadataRemoved: number;
+  savedItemsRemoved: number;
+  backupRemoved: boolean;
+}
+
+export interface StorageDiagnostics {
+  metadataEntries: number;
+  spaceTabIds: number;
+  lastCleanup?: CleanupReport;
+  sync?: SyncStatus;
+  writes: StorageWriteStats;
+  usage?: StorageUsage;
+  lastCompaction?: CompactionReport;
+  /** The browser is still restoring its last session — cleanup and compaction wait for it */
+  restoringSession?: boolean;
 }
 
 // Persisted state shape
 export interface PersistedState {
   spaces: Space[];
   settings: UserSettings;
-  tabMetadata: Record<number, { spaceId?: string; lastActiveAt?: number; createdAt?: number; domain?: string; subdomains?: string[]; keywords?: string[]; autoAssigned?: boolean; }>;
+  tabMetadata: Record<number, TabMetadataEntry>;
   savedItems: SavedItem[];
+  learnedExamples: LearnedExample[];
 }